@@ -0,0 +1,24 @@
+/*
+  Operator authentication.
+  - ADMIN_TOKEN enables the admin routes and the operator-only parts of public ones (per-key quota usage).
+  - The token is sent as "Authorization: Bearer <token>" and compared in constant time.
+*/
+
+import { timingSafeEqual } from "node:crypto"
+
+export function getAdminToken(): string | null {
+  return process.env.ADMIN_TOKEN || null
+}
+
+export function hasAdminToken(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization") ?? ""
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""))
+  const expected = Buffer.from(token)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+// True only when ADMIN_TOKEN is set and the request carries it
+export function isAdminRequest(req: Request): boolean {
+  const token = getAdminToken()
+  return token !== null && hasAdminToken(req, token)
+}
@@ -0,0 +1,134 @@
+/*
+  Audio output formats for /api/download?type=audio.
+  - m4a and opus are remuxed without re-encoding when the source already is AAC or Opus; everything
+    else (and any passthrough that needs resampling or a bitrate change) is transcoded.
+  - mp3 takes a CBR bitrate or a LAME VBR quality level; sample rate and channel count apply to all.
+*/
+
+import type { FfmpegCommand } from "fluent-ffmpeg"
+import { InvalidRequestError } from "@/api/errors"
+
+export type AudioOutputFormat = "mp3" | "m4a" | "opus" | "flac" | "wav" | "ogg"
+
+export type AudioOptions = {
+  format: AudioOutputFormat
+  bitrate?: number // kbps, constant bitrate
+  vbr?: number // LAME VBR level, 0 (best) to 9; mp3 only
+  sampleRate?: number // Hz
+  channels?: 1 | 2
+}
+
+type AudioOutput = {
+  extension: string
+  mimeType: string
+  muxer: string
+  encoder: string
+  // Source codec that can be copied as-is
+  passthrough?: "mp4a" | "opus"
+  defaultBitrate?: number
+  // Sample rates the encoder accepts; undefined means any of COMMON_SAMPLE_RATES
+  sampleRates?: number[]
+  lossless?: boolean
+}
+
+export const AUDIO_OUTPUTS: Record<AudioOutputFormat, AudioOutput> = {
+  mp3: {
+    extension: "mp3",
+    mimeType: "audio/mpeg",
+    muxer: "mp3",
+    encoder: "libmp3lame",
+    defaultBitrate: 192,
+    sampleRates: [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000],
+  },
+  m4a: { extension: "m4a", mimeType: "audio/mp4", muxer: "ipod", encoder: "aac", passthrough: "mp4a", defaultBitrate: 192 },
+  opus: {
+    extension: "opus",
+    mimeType: "audio/ogg",
+    muxer: "opus",
+    encoder: "libopus",
+    passthrough: "opus",
+    defaultBitrate: 160,
+    sampleRates: [8000, 12000, 16000, 24000, 48000],
+  },
+  flac: { extension: "flac", mimeType: "audio/flac", muxer: "flac", encoder: "flac", lossless: true },
+  wav: { extension: "wav", mimeType: "audio/wav", muxer: "wav", encoder: "pcm_s16le", lossless: true },
+  ogg: { extension: "ogg", mimeType: "audio/ogg", muxer: "ogg", encoder: "libvorbis", defaultBitrate: 192 },
+}
+
+const COMMON_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000]
+const FORMAT_ALIASES: Record<string, AudioOutputFormat> = { aac: "m4a", vorbis: "ogg" }
+const MIN_BITRATE = 32
+const MAX_BITRATE = 320
+
+function isAudioOutputFormat(value: string): value is AudioOutputFormat {
+  return value in AUDIO_OUTPUTS
+}
+
+// Reads audioFormat, audioBitrate, vbr, sampleRate and channels; throws InvalidRequestError on invalid combinations
+export function parseAudioOptions(params: URLSearchParams): AudioOptions {
+  const name = (params.get("audioFormat") || "mp3").trim().toLowerCase()
+  const format = FORMAT_ALIASES[name] ?? name
+  if (!isAudioOutputFormat(format)) {
+    throw new InvalidRequestError(`audioFormat must be one of ${Object.keys(AUDIO_OUTPUTS).join(", ")}`)
+  }
+  const output = AUDIO_OUTPUTS[format]
+  const options: AudioOptions = { format }
+
+  const bitrate = params.get("audioBitrate")
+  if (bitrate) {
+    options.bitrate = Number(bitrate.replace(/k$/i, ""))
+    if (output.lossless) throw new InvalidRequestError(`audioBitrate does not apply to lossless ${format}`)
+    if (!Number.isInteger(options.bitrate) || options.bitrate < MIN_BITRATE || options.bitrate > MAX_BITRATE) {
+      throw new InvalidRequestError(`audioBitrate must be between ${MIN_BITRATE} and ${MAX_BITRATE} kbps`)
+    }
+  }
+
+  const vbr = params.get("vbr")
+  if (vbr) {
+    options.vbr = Number(vbr.replace(/^v/i, ""))
+    if (format !== "mp3") throw new InvalidRequestError("vbr applies to mp3 only")
+    if (options.bitrate !== undefined) throw new InvalidRequestError("Use either audioBitrate (CBR) or vbr, not both")
+    if (!Number.isInteger(options.vbr) || options.vbr < 0 || options.vbr > 9) throw new InvalidRequestError("vbr must be a LAME quality level from 0 (best) to 9")
+  }
+
+  const sampleRate = params.get("sampleRate")
+  if (sampleRate) {
+    options.sampleRate = Number(sampleRate)
+    const allowed = output.sampleRates ?? COMMON_SAMPLE_RATES
+    if (!allowed.includes(options.sampleRate)) throw new InvalidRequestError(`sampleRate for ${format} must be one of ${allowed.join(", ")}`)
+  }
+
+  const channels = params.get("channels")?.trim().toLowerCase()
+  if (channels) {
+    if (channels === "mono" || channels === "1") options.channels = 1
+    else if (channels === "stereo" || channels === "2") options.channels = 2
+    else throw new InvalidRequestError("channels must be mono or stereo")
+  }
+  return options
+}
+
+// True when the source audio can be copied into the output without re-encoding
+export function canPassthrough(options: AudioOptions, sourceCodec: string | undefined): boolean {
+  const codec = AUDIO_OUTPUTS[options.format].passthrough
+  if (!codec || !sourceCodec?.startsWith(codec)) return false
+  return options.bitrate === undefined && options.sampleRate === undefined && options.channels === undefined
+}
+
+// Sets codec, container and encoder settings on an ffmpeg command reading the source audio
+export function configureAudioOutput(command: FfmpegCommand, options: AudioOptions, sourceCodec: string | undefined) {
+  const output = AUDIO_OUTPUTS[options.format]
+  // A muxed source (no audio-only stream available) also carries video
+  command.noVideo().format(output.muxer)
+
+  if (canPassthrough(options, sourceCodec)) command.audioCodec("copy")
+  else {
+    command.audioCodec(output.encoder)
+    if (options.vbr !== undefined) command.audioQuality(options.vbr)
+    else if (!output.lossless) command.audioBitrate(options.bitrate ?? output.defaultBitrate ?? MAX_BITRATE)
+    if (options.sampleRate) command.audioFrequency(options.sampleRate)
+    if (options.channels) command.audioChannels(options.channels)
+  }
+
+  // MP4 fragments are cut on video keyframes, so audio-only output needs a fragment duration to stream
+  if (output.muxer === "ipod") command.outputOptions(["-movflags empty_moov+default_base_moof", "-frag_duration 2000000"])
+}
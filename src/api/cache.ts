@@ -0,0 +1,216 @@
+/*
+  Metadata cache for YouTube Data API lookups.
+  - Backends are pluggable: an in-memory LRU (default) and a JSON-file store that survives restarts.
+  - TTLs are set per entity type; expired entries are kept and revalidated with If-None-Match when
+    they have an etag, so an unchanged resource costs a bodiless 304 instead of a full response.
+  - Each lookup is recorded on the request context so routes can report cache hits.
+*/
+
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { getRequestContext } from "@/api/context"
+
+export type CacheEntity = "video" | "channel" | "playlist"
+
+export type CacheEntry<T = unknown> = {
+  value: T
+  etag?: string
+  expiresAt: number
+}
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the least recently used entry first
+export class MemoryCache implements CacheBackend {
+  private readonly entries = new Map<string, CacheEntry>()
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  async get<T>(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry as CacheEntry<T>
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break
+      this.entries.delete(oldest)
+    }
+  }
+}
+
+// Expired entries are kept this long for etag revalidation before a file store deletes them
+const DEFAULT_MAX_STALE_MS = 24 * 60 * 60 * 1000
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+// One JSON file per key; failures are swallowed because a cache miss is always a safe answer.
+// Expired files are deleted when read once they can no longer be revalidated, and a periodic sweep
+// (run from set) removes files nobody reads and keeps the directory under maxEntries, oldest first.
+export class FileSystemCache implements CacheBackend {
+  private lastSweep = 0
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxEntries = 10000,
+    private readonly maxStaleMs = DEFAULT_MAX_STALE_MS
+  ) {}
+
+  private fileFor(key: string) {
+    return path.join(this.dir, `${createHash("sha1").update(key).digest("hex")}.json`)
+  }
+
+  async get<T>(key: string) {
+    const file = this.fileFor(key)
+    let entry: CacheEntry<T>
+    try {
+      entry = JSON.parse(await readFile(file, "utf8")) as CacheEntry<T>
+    } catch {
+      return undefined
+    }
+    // Without an etag an expired entry is only ever refetched, so it is dead weight
+    const now = Date.now()
+    if (entry.expiresAt <= now && (!entry.etag || entry.expiresAt + this.maxStaleMs <= now)) {
+      await rm(file, { force: true }).catch(() => {})
+      return undefined
+    }
+    return entry
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>) {
+    const file = this.fileFor(key)
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`
+    try {
+      await mkdir(this.dir, { recursive: true })
+      // Write-then-rename so concurrent readers never see a half-written file
+      await writeFile(temp, JSON.stringify(entry))
+      await rename(temp, file)
+    } catch {
+      // Non-fatal
+    }
+    if (Date.now() - this.lastSweep >= SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now()
+      void this.sweep()
+    }
+  }
+
+  // A file not rewritten within the longest TTL plus maxStale can be neither fresh nor revalidated;
+  // leftover temp files from interrupted writes go the same way
+  private async sweep() {
+    try {
+      const maxTtl = Math.max(...Object.keys(DEFAULT_TTL_SECONDS).map((entity) => getCacheTtl(entity as CacheEntity)))
+      const cutoff = Date.now() - maxTtl - this.maxStaleMs
+      const files: Array<{ file: string; mtime: number }> = []
+      for (const name of await readdir(this.dir)) {
+        const file = path.join(this.dir, name)
+        const mtime = (await stat(file).catch(() => null))?.mtimeMs
+        if (mtime === undefined) continue
+        if (mtime < cutoff) await rm(file, { force: true })
+        else if (name.endsWith(".json")) files.push({ file, mtime })
+      }
+      files.sort((a, b) => a.mtime - b.mtime)
+      for (const { file } of files.slice(0, Math.max(files.length - this.maxEntries, 0))) await rm(file, { force: true })
+    } catch {
+      // Non-fatal; the next sweep tries again
+    }
+  }
+}
+
+// Seconds; override with YOUTUBE_CACHE_TTL_VIDEO / _CHANNEL / _PLAYLIST, where 0 disables that entity
+const DEFAULT_TTL_SECONDS: Record<CacheEntity, number> = {
+  video: 300,
+  channel: 3600,
+  playlist: 600,
+}
+
+export function getCacheTtl(entity: CacheEntity): number {
+  const configured = process.env[`YOUTUBE_CACHE_TTL_${entity.toUpperCase()}`]
+  const seconds = configured !== undefined && configured !== "" ? Number(configured) : DEFAULT_TTL_SECONDS[entity]
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0
+}
+
+let backend: CacheBackend | null | undefined
+
+// YOUTUBE_CACHE selects the backend: "memory" (default), "fs" (YOUTUBE_CACHE_DIR) or "off"
+export function getCacheBackend(): CacheBackend | null {
+  if (backend !== undefined) return backend
+  const kind = (process.env.YOUTUBE_CACHE || "memory").toLowerCase()
+  if (kind === "off" || kind === "none") backend = null
+  else if (kind === "fs" || kind === "filesystem") {
+    const maxStale = Number(process.env.YOUTUBE_CACHE_MAX_STALE)
+    backend = new FileSystemCache(
+      process.env.YOUTUBE_CACHE_DIR || path.join(tmpdir(), "mediapyi-cache"),
+      Number(process.env.YOUTUBE_CACHE_MAX_ENTRIES) || undefined,
+      maxStale >= 0 && process.env.YOUTUBE_CACHE_MAX_STALE !== "" ? maxStale * 1000 : undefined
+    )
+  } else backend = new MemoryCache(Number(process.env.YOUTUBE_CACHE_MAX_ENTRIES) || undefined)
+  return backend
+}
+
+// For plugging in another store (e.g. Redis) at startup; null disables caching
+export function setCacheBackend(next: CacheBackend | null) {
+  backend = next
+}
+
+export type CacheStatus = "hit" | "revalidated" | "miss"
+
+export function recordCacheLookup(status: CacheStatus) {
+  const context = getRequestContext()
+  if (!context) return
+  context.cache ??= { hit: 0, revalidated: 0, miss: 0 }
+  context.cache[status]++
+}
+
+// X-Cache value for a request: HIT when nothing had to be refetched, REVALIDATED when only 304s were
+// needed, MISS when nothing came from cache and PARTIAL for a mix; null when no cached entity was looked up
+export function summarizeCacheLookups(lookups: Record<CacheStatus, number> | undefined): string | null {
+  if (!lookups) return null
+  const { hit, revalidated, miss } = lookups
+  if (!miss) return revalidated ? "REVALIDATED" : "HIT"
+  return hit || revalidated ? "PARTIAL" : "MISS"
+}
+
+export type Revalidation<T> = { notModified: true } | { notModified: false; value: T; etag?: string }
+
+// Serves `key` from cache while fresh; otherwise calls `load` with the stale entry's etag (if any).
+// Null values (not found) are never cached.
+export async function cachedFetch<T>(
+  entity: CacheEntity,
+  key: string,
+  load: (etag?: string) => Promise<Revalidation<T | null>>
+): Promise<T | null> {
+  const cache = getCacheBackend()
+  const ttl = getCacheTtl(entity)
+  if (!cache || !ttl) {
+    const result = await load()
+    return result.notModified ? null : result.value
+  }
+
+  const cacheKey = `${entity}:${key}`
+  const entry = await cache.get<T>(cacheKey)
+  if (entry && entry.expiresAt > Date.now()) {
+    recordCacheLookup("hit")
+    return entry.value
+  }
+
+  const result = await load(entry?.etag)
+  if (result.notModified && entry) {
+    recordCacheLookup("revalidated")
+    await cache.set(cacheKey, { ...entry, expiresAt: Date.now() + ttl })
+    return entry.value
+  }
+
+  recordCacheLookup("miss")
+  if (result.notModified || result.value === null) return null
+  await cache.set(cacheKey, { value: result.value, etag: result.etag, expiresAt: Date.now() + ttl })
+  return result.value
+}
@@ -0,0 +1,59 @@
+/*
+  YouTube video category lookup.
+  - Resolves categoryId to a localized name via videoCategories.list.
+  - Category lists rarely change, so each region/language pair is cached in memory for a day.
+*/
+
+import { fetchJSON } from "@/api/youtube"
+
+export type YoutubeVideoCategory = {
+  id: string
+  title: string
+  // false for legacy categories that exist for old uploads but cannot be picked for new ones
+  assignable: boolean
+}
+
+export const DEFAULT_REGION_CODE = "US"
+
+const CATEGORY_TTL_MS = 24 * 60 * 60 * 1000
+
+const categoryCache = new Map<string, { expiresAt: number; categories: Promise<Map<string, YoutubeVideoCategory>> }>()
+
+type VideoCategoriesResponse = {
+  items?: Array<{
+    id: string
+    snippet: { title: string; assignable: boolean }
+  }>
+}
+
+async function fetchCategories(regionCode: string, hl?: string) {
+  const data = await fetchJSON<VideoCategoriesResponse>("videoCategories", { part: "snippet", regionCode, hl })
+  const categories = new Map<string, YoutubeVideoCategory>()
+  for (const item of data.items ?? []) {
+    categories.set(item.id, { id: item.id, title: item.snippet.title, assignable: item.snippet.assignable })
+  }
+  return categories
+}
+
+export function getVideoCategories(regionCode = DEFAULT_REGION_CODE, hl?: string): Promise<Map<string, YoutubeVideoCategory>> {
+  const key = `${regionCode.toUpperCase()}:${hl ?? ""}`
+  const cached = categoryCache.get(key)
+  if (cached && cached.expiresAt > Date.now()) return cached.categories
+
+  // Cache the promise so concurrent requests share one upstream call; drop it again on failure
+  const categories = fetchCategories(regionCode.toUpperCase(), hl)
+  categoryCache.set(key, { expiresAt: Date.now() + CATEGORY_TTL_MS, categories })
+  categories.catch(() => categoryCache.delete(key))
+  return categories
+}
+
+// Accepts a numeric category ID or a (case-insensitive) category name such as "Music"
+export async function resolveCategoryId(value: string, regionCode = DEFAULT_REGION_CODE, hl?: string): Promise<string | null> {
+  const categories = await getVideoCategories(regionCode, hl)
+  if (categories.has(value)) return value
+  const wanted = value.trim().toLowerCase()
+  for (const category of categories.values()) {
+    if (category.title.toLowerCase() === wanted) return category.id
+  }
+  return null
+}
@@ -0,0 +1,148 @@
+/*
+  YouTube channel service.
+  - Resolves @handles, /channel/UC…, /c/name, /user/name URLs and bare handles to a channel ID.
+  - Returns full channel details plus a page of recent uploads from the channel's uploads playlist.
+*/
+
+import { parseYoutubeInput, type ChannelRef } from "@/api/parse"
+import { fetchJSON, fetchJSONIfChanged, type YoutubeThumbnail } from "@/api/youtube"
+import { cachedFetch } from "@/api/cache"
+import { listPlaylistItems, type PlaylistPageOptions, type YoutubePlaylistItemsPage } from "@/api/playlist"
+
+export type YoutubeChannel = {
+  id: string
+  url: string
+  title: string
+  description: string
+  customUrl?: string
+  publishedAt: string
+  country?: string
+  thumbnails: Record<string, YoutubeThumbnail>
+  bannerUrl?: string
+  keywords?: string[]
+  uploadsPlaylistId?: string
+  subscriberCount?: number
+  hiddenSubscriberCount?: boolean
+  videoCount?: number
+  viewCount?: number
+}
+
+export type YoutubeChannelPage = {
+  channel: YoutubeChannel
+  uploads: YoutubePlaylistItemsPage
+}
+
+type ChannelResource = {
+  id: string
+  snippet: {
+    title: string
+    description: string
+    customUrl?: string
+    publishedAt: string
+    country?: string
+    thumbnails?: Record<string, YoutubeThumbnail>
+  }
+  contentDetails?: {
+    relatedPlaylists?: { uploads?: string }
+  }
+  statistics?: {
+    viewCount?: string
+    subscriberCount?: string
+    hiddenSubscriberCount?: boolean
+    videoCount?: string
+  }
+  brandingSettings?: {
+    channel?: { keywords?: string; country?: string }
+    image?: { bannerExternalUrl?: string }
+  }
+}
+
+function parseKeywords(raw?: string): string[] | undefined {
+  if (!raw) return undefined
+  // Multi-word keywords are double-quoted in brandingSettings, e.g. `music "live sessions" rock`
+  const keywords = [...raw.matchAll(/"([^"]+)"|(\S+)/g)].map((m) => m[1] ?? m[2])
+  return keywords.length ? keywords : undefined
+}
+
+function normalizeChannel(item: ChannelResource): YoutubeChannel {
+  const toNumber = (value?: string) => (value ? Number(value) : undefined)
+  return {
+    id: item.id,
+    url: `https://www.youtube.com/channel/${item.id}`,
+    title: item.snippet.title,
+    description: item.snippet.description,
+    customUrl: item.snippet.customUrl,
+    publishedAt: item.snippet.publishedAt,
+    country: item.snippet.country ?? item.brandingSettings?.channel?.country,
+    thumbnails: item.snippet.thumbnails || {},
+    bannerUrl: item.brandingSettings?.image?.bannerExternalUrl,
+    keywords: parseKeywords(item.brandingSettings?.channel?.keywords),
+    uploadsPlaylistId: item.contentDetails?.relatedPlaylists?.uploads,
+    subscriberCount: toNumber(item.statistics?.subscriberCount),
+    hiddenSubscriberCount: item.statistics?.hiddenSubscriberCount,
+    videoCount: toNumber(item.statistics?.videoCount),
+    viewCount: toNumber(item.statistics?.viewCount),
+  }
+}
+
+function fetchChannel(filter: { id: string } | { forHandle: string } | { forUsername: string }) {
+  const parts = ["snippet", "contentDetails", "statistics", "brandingSettings"].join(",")
+  const [[by, value]] = Object.entries(filter)
+  // Handles and usernames are case-insensitive; channel IDs are not
+  const key = by === "id" ? value : value.toLowerCase()
+  return cachedFetch("channel", `${by}:${key}`, async (etag) => {
+    type ChannelsResponse = { etag?: string; items?: ChannelResource[] }
+    const result = await fetchJSONIfChanged<ChannelsResponse>("channels", { part: parts, ...filter }, etag)
+    if (result.notModified) return result
+    const item = result.value.items?.[0]
+    return { notModified: false, value: item ? normalizeChannel(item) : null, etag: result.etag }
+  })
+}
+
+export function getChannelById(channelId: string): Promise<YoutubeChannel | null> {
+  return fetchChannel({ id: channelId })
+}
+
+async function searchChannelId(query: string): Promise<string | null> {
+  type SearchResponse = { items?: Array<{ id: { channelId?: string } }> }
+  const data = await fetchJSON<SearchResponse>("search", { part: "snippet", type: "channel", q: query, maxResults: 1 })
+  return data.items?.[0]?.id.channelId ?? null
+}
+
+export async function getChannelByRef(ref: ChannelRef): Promise<YoutubeChannel | null> {
+  switch (ref.type) {
+    case "id":
+      return getChannelById(ref.value)
+    case "handle":
+      return fetchChannel({ forHandle: ref.value })
+    case "username":
+      return fetchChannel({ forUsername: ref.value })
+    case "custom":
+    case "vanity": {
+      // channels.list cannot look up /c/ names directly; most match a handle or legacy username,
+      // and only the remainder falls back to search.list (100 quota units). A bare youtube.com/name
+      // may not be a channel at all, so it is never searched: the top hit would look like a match
+      const channel = (await fetchChannel({ forHandle: `@${ref.value}` })) ?? (await fetchChannel({ forUsername: ref.value }))
+      if (channel || ref.type === "vanity") return channel
+      const channelId = await searchChannelId(ref.value)
+      return channelId ? getChannelById(channelId) : null
+    }
+  }
+}
+
+export async function getChannelPage(ref: ChannelRef, options: PlaylistPageOptions = {}): Promise<YoutubeChannelPage | null> {
+  const channel = await getChannelByRef(ref)
+  if (!channel) return null
+
+  const uploads: YoutubePlaylistItemsPage = channel.uploadsPlaylistId
+    ? await listPlaylistItems(channel.uploadsPlaylistId, options)
+    : { items: [], nextCursor: null, prevCursor: null, totalResults: 0 }
+
+  return { channel, uploads }
+}
+
+export async function getChannelByInput(input: string, options: PlaylistPageOptions = {}): Promise<YoutubeChannelPage | null> {
+  const ref = parseYoutubeInput(input)?.channel
+  if (!ref) return null
+  return getChannelPage(ref, options)
+}
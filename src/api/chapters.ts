@@ -0,0 +1,102 @@
+/*
+  Video chapters.
+  - Parses timestamp lines ("0:00 Intro", "1:02:03 - Part", "Outro (12:30)") out of descriptions.
+  - Applies YouTube's own rules so we only report chapters YouTube would show: the list starts at 0:00,
+    has at least three entries in ascending order, each at least 10 seconds long, all within the video.
+  - Prefers the chapter list from ytdl-core player data when it is available.
+*/
+
+import type { videoInfo } from "@distube/ytdl-core"
+import { parseTimestamp } from "@/api/parse"
+
+export type YoutubeChapter = {
+  start: number // seconds
+  end: number // seconds; the next chapter's start, or the video duration for the last one
+  title: string
+}
+
+export type ChapterSource = "player" | "description"
+
+const MIN_CHAPTERS = 3
+const MIN_CHAPTER_SECONDS = 10
+
+const CLOCK = String.raw`(?:\d{1,2}:)?\d{1,2}:\d{2}`
+// Timestamp first: "0:00 Intro", "- [1:02:03] – Part two", "02:10. Outro"
+const LEADING_TIMESTAMP = new RegExp(String.raw`^[\s\-*•▶►]*[\[(]?(${CLOCK})[\])]?\s*[-–—:|.]?\s*(.*?)\s*$`)
+// Title first: "Intro 0:00", "Part two - (1:02:03)"
+const TRAILING_TIMESTAMP = new RegExp(String.raw`^[\s\-*•▶►]*(.+?)\s*[-–—:|]?\s*[\[(]?(${CLOCK})[\])]?\s*$`)
+
+function parseChapterLine(line: string): { start: number; title: string } | null {
+  const leading = line.match(LEADING_TIMESTAMP)
+  if (leading) {
+    const start = parseTimestamp(leading[1])
+    return start === null ? null : { start, title: leading[2] }
+  }
+  const trailing = line.match(TRAILING_TIMESTAMP)
+  if (trailing) {
+    const start = parseTimestamp(trailing[2])
+    return start === null ? null : { start, title: trailing[1] }
+  }
+  return null
+}
+
+function withEnds(starts: Array<{ start: number; title: string }>, durationSeconds: number): YoutubeChapter[] {
+  return starts.map((chapter, i) => ({
+    start: chapter.start,
+    end: starts[i + 1]?.start ?? durationSeconds,
+    title: chapter.title || `Chapter ${i + 1}`,
+  }))
+}
+
+// Returns [] when the chapters would not pass YouTube's validation
+function validate(chapters: YoutubeChapter[], durationSeconds: number): YoutubeChapter[] {
+  if (chapters.length < MIN_CHAPTERS || chapters[0].start !== 0) return []
+  const valid = chapters.every((c) => c.start < durationSeconds && c.end - c.start >= MIN_CHAPTER_SECONDS)
+  return valid ? chapters : []
+}
+
+export function parseDescriptionChapters(description: string, durationSeconds: number | undefined): YoutubeChapter[] {
+  if (!description || !durationSeconds) return []
+
+  // The chapter list starts at the first 0:00 line and runs while timestamps keep ascending;
+  // other lines in between (blank lines, headings) are skipped
+  const starts: Array<{ start: number; title: string }> = []
+  for (const line of description.split(/\r?\n/)) {
+    const parsed = parseChapterLine(line)
+    if (!parsed) continue
+    if (!starts.length) {
+      if (parsed.start === 0) starts.push(parsed)
+      continue
+    }
+    if (parsed.start <= starts[starts.length - 1].start) break
+    starts.push(parsed)
+  }
+  return validate(withEnds(starts, durationSeconds), durationSeconds)
+}
+
+export function getPlayerChapters(info: videoInfo): YoutubeChapter[] {
+  const duration = Number(info.videoDetails.lengthSeconds) || 0
+  const starts = (info.videoDetails.chapters ?? [])
+    .map((c) => ({ start: Math.floor(c.start_time), title: c.title.trim() }))
+    .sort((a, b) => a.start - b.start)
+  // Player chapters are already what YouTube shows, so only sanity checks apply here
+  return duration ? withEnds(starts, duration).filter((c) => c.start < duration) : []
+}
+
+// Player chapters first, then the description (ytdl-core exposes it as videoDetails.description)
+export function resolveChapters(info: videoInfo): { chapters: YoutubeChapter[]; source: ChapterSource | null } {
+  const player = getPlayerChapters(info)
+  if (player.length) return { chapters: player, source: "player" }
+  const description = parseDescriptionChapters(info.videoDetails.description ?? "", Number(info.videoDetails.lengthSeconds))
+  return { chapters: description, source: description.length ? "description" : null }
+}
+
+// Accepts a 1-based index ("3") or a chapter title (exact match first, then the first title containing it)
+export function findChapter(chapters: YoutubeChapter[], value: string): YoutubeChapter | null {
+  const text = value.trim()
+  if (/^\d+$/.test(text)) return chapters[Number(text) - 1] ?? null
+  const wanted = text.toLowerCase()
+  return (
+    chapters.find((c) => c.title.toLowerCase() === wanted) ?? chapters.find((c) => c.title.toLowerCase().includes(wanted)) ?? null
+  )
+}
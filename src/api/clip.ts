@@ -0,0 +1,85 @@
+/*
+  Time-range clips for /api/download.
+  - A clip comes from `start`/`end` (seconds or hh:mm:ss), from a `chapter` (index or title), or from
+    the `t=` offset of a pasted URL, which pre-fills `start`.
+  - Video clips are stream copies by default, so they begin at a keyframe near the requested start;
+    `accurate=true` re-encodes for a frame-accurate cut.
+*/
+
+import type { videoInfo } from "@distube/ytdl-core"
+import { findChapter, resolveChapters } from "@/api/chapters"
+import { InvalidRequestError } from "@/api/errors"
+import { parseTimestamp } from "@/api/parse"
+
+export type Clip = {
+  start: number // seconds
+  end?: number // seconds; undefined runs to the end when the duration is unknown
+  // Chapter title, or the time range, for the download filename
+  label: string
+  // Re-encode so the cut is frame-accurate instead of snapping to a keyframe
+  accurate: boolean
+}
+
+// Seconds with an optional fraction ("90", "90.5") or a clock ("1:02:03", "02:03.250"); else 1h2m3s forms
+export function parseClipTime(name: string, value: string): number {
+  const text = value.trim()
+  let seconds: number | null = null
+  if (/^\d+(\.\d+)?$/.test(text)) seconds = Number(text)
+  else {
+    const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2}(?:\.\d+)?)$/)
+    if (clock && Number(clock[3]) < 60 && (clock[1] === undefined || Number(clock[2]) < 60)) {
+      seconds = Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+    } else if (!text.includes(":")) seconds = parseTimestamp(text)
+  }
+  if (seconds === null) throw new InvalidRequestError(`${name} must be seconds or hh:mm:ss, e.g. 90 or 1:30`)
+  return seconds
+}
+
+// "1m30s", "1h02m03s", "45.5s"; filenames cannot carry ":"
+function formatLabelTime(seconds: number) {
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = Number((seconds % 60).toFixed(3))
+  const sec = `${(h || m) && s < 10 ? "0" : ""}${s}s`
+  if (h) return `${h}h${String(m).padStart(2, "0")}m${sec}`
+  return m ? `${m}m${sec}` : sec
+}
+
+function parseAccurate(value: string | null): boolean {
+  if (value === null || value === "" || /^(0|false|no)$/i.test(value)) return false
+  if (/^(1|true|yes)$/i.test(value)) return true
+  throw new InvalidRequestError("accurate must be true or false")
+}
+
+// Reads chapter, start, end and accurate; `urlStart` is the t= offset of the pasted URL, if any.
+// Returns null for a full download; throws InvalidRequestError for ranges that do not fit the video.
+export function resolveClip(params: URLSearchParams, info: videoInfo, urlStart: number | null): Clip | null {
+  const chapterParam = params.get("chapter")?.trim() || ""
+  const startParam = params.get("start")?.trim() || ""
+  const endParam = params.get("end")?.trim() || ""
+  const accurate = parseAccurate(params.get("accurate"))
+  const duration = Number(info.videoDetails.lengthSeconds) || undefined
+
+  if (chapterParam) {
+    if (startParam || endParam) throw new InvalidRequestError("Use either chapter or start/end, not both")
+    const { chapters } = resolveChapters(info)
+    const chapter = findChapter(chapters, chapterParam)
+    if (!chapter) {
+      throw new InvalidRequestError(
+        chapters.length ? `No chapter matches "${chapterParam}" (this video has ${chapters.length} chapters)` : "This video has no chapters"
+      )
+    }
+    return { start: chapter.start, end: chapter.end, label: chapter.title, accurate }
+  }
+
+  // An explicit start (even 0) overrides the URL's t=
+  const start = startParam ? parseClipTime("start", startParam) : (urlStart ?? 0)
+  const end = endParam ? parseClipTime("end", endParam) : undefined
+  if (!start && end === undefined) return null
+
+  if (duration !== undefined && start >= duration) throw new InvalidRequestError(`start is past the end of the video (${duration}s)`)
+  if (end !== undefined && end <= start) throw new InvalidRequestError("end must be after start")
+  const clippedEnd = end !== undefined && duration !== undefined ? Math.min(end, duration) : (end ?? duration)
+  const label = `${formatLabelTime(start)}-${clippedEnd !== undefined ? formatLabelTime(clippedEnd) : "end"}`
+  return { start, end: clippedEnd, label, accurate }
+}
@@ -0,0 +1,166 @@
+/*
+  YouTube comments service.
+  - Pages through commentThreads.list and expands replies beyond the inline preview via comments.list.
+  - Provides an async iterator over the whole thread tree for CSV/NDJSON exports.
+*/
+
+import { fetchJSON } from "@/api/youtube"
+
+export type YoutubeComment = {
+  id: string
+  parentId?: string
+  videoId: string
+  authorDisplayName: string
+  authorChannelId?: string
+  authorProfileImageUrl?: string
+  text: string
+  likeCount: number
+  publishedAt: string
+  updatedAt: string
+}
+
+export type YoutubeCommentThread = {
+  id: string
+  videoId: string
+  comment: YoutubeComment
+  totalReplyCount: number
+  replies: YoutubeComment[]
+}
+
+export type CommentOrder = "time" | "relevance"
+
+// "preview" keeps the up-to-5 replies commentThreads.list inlines; "all" fetches the rest via comments.list
+export type CommentRepliesMode = "all" | "preview" | "none"
+
+export type CommentThreadsOptions = {
+  cursor?: string
+  limit?: number
+  order?: CommentOrder
+  search?: string
+  replies?: CommentRepliesMode
+}
+
+export type YoutubeCommentThreadsPage = {
+  threads: YoutubeCommentThread[]
+  nextCursor: string | null
+  totalResults?: number
+}
+
+// commentThreads.list and comments.list both cap maxResults at 100
+export const MAX_COMMENTS_PAGE_SIZE = 100
+
+type CommentResource = {
+  id: string
+  snippet: {
+    videoId?: string
+    parentId?: string
+    authorDisplayName: string
+    authorProfileImageUrl?: string
+    authorChannelId?: { value: string }
+    textDisplay: string
+    textOriginal?: string
+    likeCount: number
+    publishedAt: string
+    updatedAt: string
+  }
+}
+
+type CommentThreadResource = {
+  id: string
+  snippet: {
+    videoId: string
+    topLevelComment: CommentResource
+    totalReplyCount: number
+  }
+  replies?: {
+    comments: CommentResource[]
+  }
+}
+
+function normalizeComment(item: CommentResource, videoId: string): YoutubeComment {
+  return {
+    id: item.id,
+    parentId: item.snippet.parentId,
+    videoId: item.snippet.videoId ?? videoId,
+    authorDisplayName: item.snippet.authorDisplayName,
+    authorChannelId: item.snippet.authorChannelId?.value,
+    authorProfileImageUrl: item.snippet.authorProfileImageUrl,
+    text: item.snippet.textOriginal ?? item.snippet.textDisplay,
+    likeCount: item.snippet.likeCount,
+    publishedAt: item.snippet.publishedAt,
+    updatedAt: item.snippet.updatedAt,
+  }
+}
+
+export async function listAllReplies(parentId: string, videoId: string): Promise<YoutubeComment[]> {
+  type CommentsResponse = { items?: CommentResource[]; nextPageToken?: string }
+  const replies: YoutubeComment[] = []
+  let pageToken: string | undefined
+
+  do {
+    const data = await fetchJSON<CommentsResponse>("comments", {
+      part: "snippet",
+      parentId,
+      maxResults: MAX_COMMENTS_PAGE_SIZE,
+      textFormat: "plainText",
+      pageToken,
+    })
+    for (const item of data.items ?? []) replies.push(normalizeComment(item, videoId))
+    pageToken = data.nextPageToken
+  } while (pageToken)
+
+  return replies
+}
+
+export async function listCommentThreads(videoId: string, options: CommentThreadsOptions = {}): Promise<YoutubeCommentThreadsPage> {
+  type CommentThreadsResponse = {
+    items?: CommentThreadResource[]
+    nextPageToken?: string
+    pageInfo?: { totalResults?: number }
+  }
+
+  const repliesMode = options.replies ?? "all"
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_COMMENTS_PAGE_SIZE)
+  const data = await fetchJSON<CommentThreadsResponse>("commentThreads", {
+    part: repliesMode === "none" ? "snippet" : "snippet,replies",
+    videoId,
+    maxResults: limit,
+    order: options.order,
+    searchTerms: options.search,
+    textFormat: "plainText",
+    pageToken: options.cursor,
+  })
+
+  const threads = await Promise.all(
+    (data.items ?? []).map(async (item): Promise<YoutubeCommentThread> => {
+      const inline = (item.replies?.comments ?? []).map((c) => normalizeComment(c, item.snippet.videoId))
+      const needsExpansion = repliesMode === "all" && item.snippet.totalReplyCount > inline.length
+      return {
+        id: item.id,
+        videoId: item.snippet.videoId,
+        comment: normalizeComment(item.snippet.topLevelComment, item.snippet.videoId),
+        totalReplyCount: item.snippet.totalReplyCount,
+        replies: needsExpansion ? await listAllReplies(item.id, item.snippet.videoId) : inline,
+      }
+    })
+  )
+
+  return {
+    threads,
+    nextCursor: data.nextPageToken ?? null,
+    totalResults: data.pageInfo?.totalResults,
+  }
+}
+
+// Walks every page starting at options.cursor, yielding threads with their replies expanded
+export async function* iterateCommentThreads(
+  videoId: string,
+  options: Omit<CommentThreadsOptions, "limit"> = {}
+): AsyncGenerator<YoutubeCommentThread> {
+  let cursor = options.cursor
+  do {
+    const page = await listCommentThreads(videoId, { ...options, cursor, limit: MAX_COMMENTS_PAGE_SIZE })
+    yield* page.threads
+    cursor = page.nextCursor ?? undefined
+  } while (cursor)
+}
@@ -0,0 +1,48 @@
+/*
+  Per-request context for the API services.
+  - Route handlers wrap themselves with withRequestContext; services read the current route and the
+    client's abort signal from anywhere below without threading them through every call.
+  - Cache lookups made while handling the request are reported back in an X-Cache response header.
+*/
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import type { NextRequest } from "next/server"
+import { summarizeCacheLookups, type CacheStatus } from "@/api/cache"
+
+export type RequestContext = {
+  // Pathname of the route handling the request, e.g. "/api/youtube"
+  route: string
+  // Aborts when the client disconnects, so upstream calls made for it can stop early
+  signal?: AbortSignal
+  // Counts of cached-entity lookups, filled in by the cache layer
+  cache?: Record<CacheStatus, number>
+}
+
+const storage = new AsyncLocalStorage<RequestContext>()
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore()
+}
+
+export function withRequestContext(handler: (req: NextRequest) => Promise<Response>) {
+  return (req: NextRequest) => {
+    const context: RequestContext = { route: new URL(req.url).pathname, signal: req.signal }
+    return storage.run(context, async () => {
+      const res = await handler(req)
+      const cache = summarizeCacheLookups(context.cache)
+      if (cache) {
+        res.headers.set("X-Cache", cache)
+        res.headers.append("Access-Control-Expose-Headers", "X-Cache")
+      }
+      return res
+    })
+  }
+}
+
+// Streams are pulled after the handler returns, outside its async context; bind their callbacks
+// while the handler is still running so work they trigger is still attributed to the request
+export function bindRequestContext<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => R {
+  const context = storage.getStore()
+  if (!context) return fn
+  return (...args: A) => storage.run(context, () => fn(...args))
+}
@@ -0,0 +1,174 @@
+/*
+  Description analyzer.
+  - Finds links, hashtags, @mentions and timestamps in a video description, with their positions so
+    clients can render the text with live links and seek targets.
+  - youtube.com/redirect wrappers are unwrapped to the real target; outbound (non-YouTube) links are
+    also returned as a de-duplicated inventory grouped by domain.
+  - Links to YouTube videos and playlists are collected as referenced IDs.
+*/
+
+import { isYoutubeHost, parseYoutubeInput } from "@/api/parse"
+
+// [start, end) UTF-16 offsets into the description, i.e. description.slice(start, end) is the matched text
+export type TextRange = [number, number]
+
+export type DescriptionEntity =
+  | {
+      type: "link"
+      indices: TextRange
+      url: string // as written, with a scheme added when it had none
+      target: string // url with youtube.com/redirect unwrapped
+      domain: string // target host without "www."
+      youtube: boolean
+    }
+  | { type: "hashtag"; indices: TextRange; tag: string }
+  | { type: "mention"; indices: TextRange; handle: string }
+  | { type: "timestamp"; indices: TextRange; seconds: number }
+
+export type OutboundLink = {
+  url: string
+  target: string
+  domain: string
+}
+
+export type DescriptionEntities = {
+  // Every match in document order; ranges never overlap
+  entities: DescriptionEntity[]
+  // Non-YouTube links, unique by target
+  links: OutboundLink[]
+  // Outbound links grouped by domain, most linked first
+  domains: Array<{ domain: string; count: number; targets: string[] }>
+  hashtags: string[]
+  mentions: string[]
+  videoIds: string[]
+  playlistIds: string[]
+  // Seconds, in order of first appearance
+  timestamps: number[]
+}
+
+const LINK_PATTERN = /\bhttps?:\/\/[^\s<>"]+|\bwww\.[^\s<>"]+/gi
+// A hashtag needs at least one letter, so "#1" and "#2024" stay plain text
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&/#])#([\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*)/gu
+// Preceded by a word character it is an email address, not a mention
+const MENTION_PATTERN = /(^|[^\p{L}\p{N}_.@])@([a-zA-Z0-9._-]{3,30})/gu
+const TIMESTAMP_PATTERN = /(?<![\w:.])(?:\d{1,2}:)?\d{1,2}:\d{2}(?![\w:])/g
+
+// Drops trailing punctuation that belongs to the sentence, keeping balanced closing brackets
+function trimLink(text: string): string {
+  let end = text.length
+  for (;;) {
+    const last = text[end - 1]
+    const body = text.slice(0, end)
+    if (/[.,;:!?'*]/.test(last)) end--
+    else if (last === ")" && body.split("(").length < body.split(")").length) end--
+    else if (last === "]" && body.split("[").length < body.split("]").length) end--
+    else return text.slice(0, end)
+  }
+}
+
+function toUrl(text: string): URL | null {
+  try {
+    return new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`)
+  } catch {
+    return null
+  }
+}
+
+// youtube.com/redirect?q=<target>&event=... is how YouTube wraps outbound links in descriptions
+function unwrapRedirect(url: URL): URL {
+  if (!isYoutubeHost(url.hostname) || url.pathname !== "/redirect") return url
+  const target = url.searchParams.get("q")
+  return (target && toUrl(target)) || url
+}
+
+function toDomain(url: URL) {
+  return url.hostname.toLowerCase().replace(/^www\./, "")
+}
+
+function parseClock(text: string, durationSeconds: number | undefined): number | null {
+  const parts = text.split(":").map(Number)
+  // Only the leading unit may exceed 59
+  if (parts.slice(1).some((part) => part >= 60)) return null
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  // YouTube only links timestamps that fall inside the video
+  return durationSeconds !== undefined && seconds > durationSeconds ? null : seconds
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)]
+}
+
+export function analyzeDescription(description: string, durationSeconds?: number): DescriptionEntities {
+  const links: DescriptionEntity[] = []
+  for (const match of description.matchAll(LINK_PATTERN)) {
+    const text = trimLink(match[0])
+    const url = toUrl(text)
+    if (!url) continue
+    const target = unwrapRedirect(url)
+    links.push({
+      type: "link",
+      indices: [match.index, match.index + text.length],
+      url: url.href,
+      target: target.href,
+      domain: toDomain(target),
+      youtube: isYoutubeHost(target.hostname),
+    })
+  }
+
+  const others: DescriptionEntity[] = []
+  for (const match of description.matchAll(HASHTAG_PATTERN)) {
+    const start = match.index + match[1].length
+    others.push({ type: "hashtag", indices: [start, start + 1 + match[2].length], tag: match[2] })
+  }
+  for (const match of description.matchAll(MENTION_PATTERN)) {
+    const name = match[2].replace(/[.-]+$/, "")
+    if (name.length < 3) continue
+    const start = match.index + match[1].length
+    others.push({ type: "mention", indices: [start, start + 1 + name.length], handle: `@${name}` })
+  }
+  for (const match of description.matchAll(TIMESTAMP_PATTERN)) {
+    const seconds = parseClock(match[0], durationSeconds)
+    if (seconds === null) continue
+    others.push({ type: "timestamp", indices: [match.index, match.index + match[0].length], seconds })
+  }
+
+  // Hashtags, mentions and times inside a URL are part of the link
+  const outside = others.filter((entity) =>
+    links.every((link) => entity.indices[1] <= link.indices[0] || entity.indices[0] >= link.indices[1])
+  )
+  const entities = [...links, ...outside].sort((a, b) => a.indices[0] - b.indices[0])
+
+  const outbound = new Map<string, OutboundLink>()
+  const videoIds: string[] = []
+  const playlistIds: string[] = []
+  for (const entity of links) {
+    if (entity.type !== "link") continue
+    if (!entity.youtube) {
+      if (!outbound.has(entity.target)) outbound.set(entity.target, { url: entity.url, target: entity.target, domain: entity.domain })
+      continue
+    }
+    const parsed = parseYoutubeInput(entity.target)
+    if (parsed?.videoId) videoIds.push(parsed.videoId)
+    if (parsed?.playlistId) playlistIds.push(parsed.playlistId)
+  }
+
+  const byDomain = new Map<string, string[]>()
+  for (const link of outbound.values()) byDomain.set(link.domain, [...(byDomain.get(link.domain) ?? []), link.target])
+  const domains = [...byDomain]
+    .map(([domain, targets]) => ({ domain, count: targets.length, targets }))
+    .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain))
+
+  const pick = <K extends DescriptionEntity["type"]>(type: K) =>
+    outside.filter((entity): entity is Extract<DescriptionEntity, { type: K }> => entity.type === type)
+
+  return {
+    entities,
+    links: [...outbound.values()],
+    domains,
+    hashtags: unique(pick("hashtag").map((h) => h.tag)),
+    mentions: unique(pick("mention").map((m) => m.handle)),
+    videoIds: unique(videoIds),
+    playlistIds: unique(playlistIds),
+    timestamps: unique(pick("timestamp").map((t) => t.seconds)),
+  }
+}
@@ -0,0 +1,218 @@
+/*
+  Typed errors shared by the API services and route handlers.
+  - Every error carries the HTTP status to answer with and a stable machine-readable code.
+  - Google's error body is parsed so upstream reasons (quotaExceeded, keyInvalid, ...) map to specific classes.
+*/
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: string
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+// Raised when the server itself is not set up to call YouTube (e.g. no API key)
+export class ConfigurationError extends ApiError {
+  constructor(message: string) {
+    super(message, 500, "not_configured")
+    this.name = "ConfigurationError"
+  }
+}
+
+// The upstream call did not answer within its timeout, even after retries
+export class UpstreamTimeoutError extends ApiError {
+  constructor(message = "YouTube API request timed out") {
+    super(message, 504, "upstream_timeout")
+    this.name = "UpstreamTimeoutError"
+  }
+}
+
+// DNS, connection or TLS failures before any HTTP response arrived
+export class UpstreamNetworkError extends ApiError {
+  constructor(message = "Unable to reach the YouTube API") {
+    super(message, 502, "upstream_unreachable")
+    this.name = "UpstreamNetworkError"
+  }
+}
+
+// Invalid caller input (query or body parameters), raised by the option parsers
+export class InvalidRequestError extends ApiError {
+  constructor(message: string) {
+    super(message, 400, "invalid_request")
+    this.name = "InvalidRequestError"
+  }
+}
+
+// The client disconnected; 499 follows the nginx convention and is only ever seen in logs
+export class RequestAbortedError extends ApiError {
+  constructor() {
+    super("The request was cancelled by the client", 499, "request_aborted")
+    this.name = "RequestAbortedError"
+  }
+}
+
+// Base class for failures reported by the YouTube Data API; `reason` is Google's own identifier
+export class YoutubeApiError extends ApiError {
+  constructor(
+    message: string,
+    status: number,
+    code: string,
+    readonly reason: string | null,
+    readonly upstreamStatus: number
+  ) {
+    super(message, status, code)
+    this.name = "YoutubeApiError"
+  }
+}
+
+export class QuotaExceededError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 503, "quota_exceeded", reason, upstreamStatus)
+    this.name = "QuotaExceededError"
+  }
+}
+
+export class RateLimitedError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 429, "rate_limited", reason, upstreamStatus)
+    this.name = "RateLimitedError"
+  }
+}
+
+export class InvalidApiKeyError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 500, "api_key_invalid", reason, upstreamStatus)
+    this.name = "InvalidApiKeyError"
+  }
+}
+
+export class ApiNotEnabledError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 500, "api_not_enabled", reason, upstreamStatus)
+    this.name = "ApiNotEnabledError"
+  }
+}
+
+export class ForbiddenError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 403, "forbidden", reason, upstreamStatus)
+    this.name = "ForbiddenError"
+  }
+}
+
+export class NotFoundError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 404, "not_found", reason, upstreamStatus)
+    this.name = "NotFoundError"
+  }
+}
+
+export class BadRequestError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 400, "invalid_request", reason, upstreamStatus)
+    this.name = "BadRequestError"
+  }
+}
+
+export class ProcessingFailureError extends YoutubeApiError {
+  constructor(message: string, reason: string | null, upstreamStatus: number) {
+    super(message, 502, "upstream_processing_failure", reason, upstreamStatus)
+    this.name = "ProcessingFailureError"
+  }
+}
+
+type GoogleErrorBody = {
+  error?: {
+    code?: number
+    message?: string
+    errors?: Array<{ message?: string; domain?: string; reason?: string }>
+    status?: string
+    details?: Array<{ "@type"?: string; reason?: string }>
+  }
+}
+
+type YoutubeErrorClass = new (message: string, reason: string | null, upstreamStatus: number) => YoutubeApiError
+
+const REASON_CLASSES: Record<string, YoutubeErrorClass> = {
+  quotaExceeded: QuotaExceededError,
+  dailyLimitExceeded: QuotaExceededError,
+  rateLimitExceeded: RateLimitedError,
+  userRateLimitExceeded: RateLimitedError,
+  keyInvalid: InvalidApiKeyError,
+  keyExpired: InvalidApiKeyError,
+  accessNotConfigured: ApiNotEnabledError,
+  forbidden: ForbiddenError,
+  ipRefererBlocked: ForbiddenError,
+  commentsDisabled: ForbiddenError,
+  videoNotFound: NotFoundError,
+  channelNotFound: NotFoundError,
+  playlistNotFound: NotFoundError,
+  commentThreadNotFound: NotFoundError,
+  commentNotFound: NotFoundError,
+  videoChartNotFound: NotFoundError,
+  processingFailure: ProcessingFailureError,
+}
+
+// Newer Google responses report key problems as reason "badRequest" plus an ErrorInfo detail
+const ERROR_INFO_REASONS: Record<string, string> = {
+  API_KEY_INVALID: "keyInvalid",
+  API_KEY_EXPIRED: "keyExpired",
+  SERVICE_DISABLED: "accessNotConfigured",
+  // The key's own restrictions: allowed APIs, then allowed referrers, IPs and apps
+  API_KEY_SERVICE_BLOCKED: "accessNotConfigured",
+  API_KEY_HTTP_REFERRER_BLOCKED: "ipRefererBlocked",
+  API_KEY_IP_ADDRESS_BLOCKED: "ipRefererBlocked",
+  API_KEY_ANDROID_APP_BLOCKED: "ipRefererBlocked",
+  API_KEY_IOS_APP_BLOCKED: "ipRefererBlocked",
+  RATE_LIMIT_EXCEEDED: "rateLimitExceeded",
+}
+
+// Builds the typed error for a non-2xx YouTube Data API response from its status and raw body
+export function parseYoutubeError(status: number, statusText: string, bodyText: string): YoutubeApiError {
+  let body: GoogleErrorBody = {}
+  try {
+    body = JSON.parse(bodyText) as GoogleErrorBody
+  } catch {
+    // Non-JSON bodies (proxies, outages) fall through to status-based mapping
+  }
+
+  const infoReason = body.error?.details?.map((d) => d.reason && ERROR_INFO_REASONS[d.reason]).find(Boolean)
+  const reason = infoReason || body.error?.errors?.[0]?.reason || null
+  const message = `YouTube API error: ${body.error?.message || `${status} ${statusText}`}`
+
+  const ErrorClass = reason ? REASON_CLASSES[reason] : undefined
+  if (ErrorClass) return new ErrorClass(message, reason, status)
+  if (status === 400) return new BadRequestError(message, reason, status)
+  if (status === 403) return new ForbiddenError(message, reason, status)
+  if (status === 404) return new NotFoundError(message, reason, status)
+  if (status === 429) return new RateLimitedError(message, reason, status)
+  return new YoutubeApiError(message, 502, "upstream_error", reason, status)
+}
+
+// Failures caused by the API key itself (invalid, expired, restricted, API not enabled), as opposed to
+// the request (not found, bad parameters) or Google's side (processing failures)
+export function isKeyError(err: YoutubeApiError): boolean {
+  return err instanceof InvalidApiKeyError || err instanceof ApiNotEnabledError || err.reason === "ipRefererBlocked"
+}
+
+export type ErrorEnvelope = {
+  error: string
+  code: string
+  reason?: string
+}
+
+// Maps any thrown value to the status and JSON body a route should answer with
+export function toErrorResponse(err: unknown): { status: number; body: ErrorEnvelope } {
+  if (err instanceof YoutubeApiError) {
+    return { status: err.status, body: { error: err.message, code: err.code, reason: err.reason ?? undefined } }
+  }
+  if (err instanceof ApiError) return { status: err.status, body: { error: err.message, code: err.code } }
+  return {
+    status: 500,
+    body: { error: err instanceof Error ? err.message : "Internal Server Error", code: "internal_error" },
+  }
+}
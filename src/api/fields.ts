@@ -0,0 +1,55 @@
+/*
+  Sparse fieldsets for API responses.
+  - `fields=id,title,statistics.viewCount,channel.title` keeps only the listed paths.
+  - Paths are dotted; arrays apply the remaining path to each element.
+*/
+
+import { InvalidRequestError } from "@/api/errors"
+
+type FieldTree = { [key: string]: FieldTree | true }
+
+export function parseFields(value: string | string[] | undefined | null): string[] | null {
+  if (value === undefined || value === null) return null
+  const fields = (Array.isArray(value) ? value : value.split(",")).map((f) => f.trim()).filter(Boolean)
+  if (fields.some((f) => !/^[a-zA-Z0-9_]+(\.[a-zA-Z0-9_]+)*$/.test(f))) {
+    throw new InvalidRequestError("fields must be a comma-separated list of dotted paths, e.g. id,title,statistics.viewCount")
+  }
+  return fields.length ? fields : null
+}
+
+function buildTree(fields: string[]): FieldTree {
+  const tree: FieldTree = {}
+  for (const field of fields) {
+    let node = tree
+    const segments = field.split(".")
+    for (const [i, segment] of segments.entries()) {
+      // A shorter path already selects the whole subtree
+      if (node[segment] === true) break
+      if (i === segments.length - 1) {
+        node[segment] = true
+        break
+      }
+      node[segment] = (node[segment] as FieldTree | undefined) ?? {}
+      node = node[segment] as FieldTree
+    }
+  }
+  return tree
+}
+
+function pickTree(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) return value.map((entry) => pickTree(entry, tree))
+  if (value === null || typeof value !== "object") return value
+
+  const source = value as Record<string, unknown>
+  const out: Record<string, unknown> = {}
+  for (const [key, subtree] of Object.entries(tree)) {
+    if (!(key in source) || source[key] === undefined) continue
+    out[key] = subtree === true ? source[key] : pickTree(source[key], subtree)
+  }
+  return out
+}
+
+export function pickFields<T>(value: T, fields: string[] | null): Partial<T> | T {
+  if (!fields) return value
+  return pickTree(value, buildTree(fields)) as Partial<T>
+}
@@ -0,0 +1,397 @@
+/*
+  Stream formats from ytdl-core player info.
+  - Describes every format in a stable shape (codecs, resolution, bitrates, HDR, audio track).
+  - Groups them into muxed, video-only and audio-only sets, best first.
+  - Holds the format choice for each download mode, so /api/download and /api/formats agree. Callers
+    can steer it with quality, itag, container, codec, size, HDR and frame-rate preferences.
+  - For merged downloads, pairs a video-only stream with a compatible audio-only stream and picks a
+    container both codecs fit in.
+*/
+
+import type { videoFormat } from "@distube/ytdl-core"
+import { InvalidRequestError } from "@/api/errors"
+
+export type StreamKind = "muxed" | "video" | "audio"
+
+export type AudioTrack = {
+  id: string // e.g. "en.4"
+  language: string // BCP-47 tag taken from the track id, e.g. "en" or "pt-BR"
+  name: string // display name, e.g. "English (United States) original"
+  isDefault: boolean
+}
+
+export type StreamFormat = {
+  itag: number
+  kind: StreamKind
+  mimeType?: string
+  container: string
+  videoCodec?: string
+  audioCodec?: string
+  qualityLabel?: string
+  width?: number
+  height?: number
+  fps?: number
+  hdr: boolean
+  bitrate?: number // bits per second, peak
+  averageBitrate?: number
+  audioBitrate?: number // kbps
+  audioSampleRate?: number // Hz
+  audioChannels?: number
+  // Only present on videos with several audio tracks (dubs, descriptive audio)
+  audioTrack?: AudioTrack
+  contentLength?: number // bytes; missing for some streams
+  durationMs?: number
+}
+
+export type DownloadMode = "video" | "audio" | "merge"
+
+export type MergeContainer = "mp4" | "webm" | "mkv"
+
+export type FormatListing = {
+  muxed: StreamFormat[]
+  videoOnly: StreamFormat[]
+  audioOnly: StreamFormat[]
+  // What the download route picks for each mode with the same preferences; null when nothing fits the mode
+  recommended: {
+    video: { itag: number; fallbacks: string[] } | null
+    audio: { itag: number; fallbacks: string[] } | null
+    merge: { video: number; audio: number; container: MergeContainer; fallbacks: string[] } | null
+  }
+}
+
+// PQ (HDR10) and HLG transfer functions
+const HDR_TRANSFERS = new Set(["COLOR_TRANSFER_CHARACTERISTICS_SMPTEST2084", "COLOR_TRANSFER_CHARACTERISTICS_ARIB_STD_B67"])
+
+// audioTrack is on the raw streaming data but missing from ytdl-core's typings
+type RawAudioTrack = { id?: string; displayName?: string; audioIsDefault?: boolean }
+
+function getAudioTrack(format: videoFormat): AudioTrack | undefined {
+  const track = (format as videoFormat & { audioTrack?: RawAudioTrack }).audioTrack
+  if (!track?.id) return undefined
+  return {
+    id: track.id,
+    language: track.id.split(".")[0],
+    name: track.displayName ?? track.id,
+    isDefault: Boolean(track.audioIsDefault),
+  }
+}
+
+function toNumber(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined
+  const n = Number(value)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function kindOf(format: videoFormat): StreamKind {
+  if (format.hasVideo && format.hasAudio) return "muxed"
+  return format.hasVideo ? "video" : "audio"
+}
+
+export function isHdr(format: videoFormat): boolean {
+  const transfer = format.colorInfo?.transferCharacteristics
+  return (transfer !== undefined && HDR_TRANSFERS.has(transfer)) || Boolean(format.qualityLabel?.includes("HDR"))
+}
+
+export function describeFormat(format: videoFormat): StreamFormat {
+  return {
+    itag: format.itag,
+    kind: kindOf(format),
+    mimeType: format.mimeType,
+    container: format.container,
+    videoCodec: format.hasVideo ? format.videoCodec : undefined,
+    audioCodec: format.hasAudio ? format.audioCodec : undefined,
+    qualityLabel: format.qualityLabel ?? undefined,
+    width: format.width,
+    height: format.height,
+    fps: format.fps,
+    hdr: format.hasVideo ? isHdr(format) : false,
+    bitrate: format.bitrate,
+    averageBitrate: format.averageBitrate,
+    audioBitrate: format.hasAudio ? (format.audioBitrate ?? undefined) : undefined,
+    audioSampleRate: toNumber(format.audioSampleRate),
+    audioChannels: format.audioChannels,
+    audioTrack: getAudioTrack(format),
+    contentLength: toNumber(format.contentLength),
+    durationMs: toNumber(format.approxDurationMs),
+  }
+}
+
+export type VideoCodec = "avc1" | "vp9" | "av01"
+
+export type FormatPreferences = {
+  // "best" (default), "worst" or a target height; the closest height at or below the target wins
+  quality?: "best" | "worst" | number
+  itag?: number
+  container?: MergeContainer
+  videoCodec?: VideoCodec
+  maxFilesize?: number // bytes
+  hdr?: boolean
+  highFps?: boolean
+  // Set by the server, not the caller: a tie-break for the audio codec that is never reported in fallbacks
+  preferAudioCodec?: "mp4a" | "opus"
+}
+
+export type FormatSelection = (
+  | { mode: "video"; format: videoFormat }
+  | { mode: "audio"; format: videoFormat }
+  | { mode: "merge"; video: videoFormat; audio: videoFormat }
+) & {
+  container: MergeContainer
+  // Preferences that could not be met, in the order they were relaxed
+  fallbacks: string[]
+}
+
+const CODEC_PATTERNS: Record<VideoCodec, RegExp> = { avc1: /^avc1/, vp9: /^vp0?9/, av01: /^av01/ }
+const CODEC_ALIASES: Record<string, VideoCodec> = { avc1: "avc1", avc: "avc1", h264: "avc1", vp9: "vp9", vp09: "vp9", av01: "av01", av1: "av01" }
+const QUALITY_ALIASES: Record<string, "best" | "worst" | number> = {
+  best: "best", highest: "best", worst: "worst", lowest: "worst", "4k": 2160, "8k": 4320,
+}
+const SIZE_UNITS: Record<string, number> = { "": 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }
+
+function parseBoolean(name: string, value: string | null): boolean | undefined {
+  if (value === null || value === "") return undefined
+  if (/^(1|true|yes)$/i.test(value)) return true
+  if (/^(0|false|no)$/i.test(value)) return false
+  throw new InvalidRequestError(`${name} must be true or false`)
+}
+
+// Reads quality, itag, container, videoCodec (alias codec), maxFilesize, hdr and highFps; throws InvalidRequestError on invalid values
+export function parseFormatPreferences(params: URLSearchParams): FormatPreferences {
+  const prefs: FormatPreferences = {}
+
+  const quality = params.get("quality")?.trim().toLowerCase()
+  if (quality) {
+    const height = quality.match(/^(\d{3,4})p?$/)
+    prefs.quality = QUALITY_ALIASES[quality] ?? (height ? Number(height[1]) : undefined)
+    if (prefs.quality === undefined) throw new InvalidRequestError("quality must be best, worst or a height such as 720p")
+  }
+
+  const itag = params.get("itag")
+  if (itag) {
+    if (!/^\d+$/.test(itag)) throw new InvalidRequestError("itag must be a positive integer")
+    prefs.itag = Number(itag)
+  }
+
+  const container = params.get("container")?.trim().toLowerCase()
+  if (container) {
+    if (container !== "mp4" && container !== "webm" && container !== "mkv") throw new InvalidRequestError("container must be mp4, webm or mkv")
+    prefs.container = container
+  }
+
+  const codec = (params.get("videoCodec") || params.get("codec"))?.trim().toLowerCase()
+  if (codec) {
+    prefs.videoCodec = CODEC_ALIASES[codec]
+    if (!prefs.videoCodec) throw new InvalidRequestError("videoCodec must be avc1, vp9 or av01")
+  }
+
+  const size = params.get("maxFilesize")?.trim().toLowerCase()
+  if (size) {
+    const match = size.match(/^(\d+(?:\.\d+)?)\s*([kmg]?)i?b?$/)
+    if (!match || !Number(match[1])) throw new InvalidRequestError("maxFilesize must be a size in bytes or with a unit, e.g. 500M or 1.5G")
+    prefs.maxFilesize = Math.floor(Number(match[1]) * SIZE_UNITS[match[2]])
+  }
+
+  prefs.hdr = parseBoolean("hdr", params.get("hdr"))
+  prefs.highFps = parseBoolean("highFps", params.get("highFps"))
+  return prefs
+}
+
+// Exact size when YouTube reports it, otherwise estimated from the average bitrate and duration
+export function estimateSize(format: videoFormat): number | undefined {
+  const length = toNumber(format.contentLength)
+  if (length) return length
+  const bitrate = format.averageBitrate ?? format.bitrate
+  const durationMs = toNumber(format.approxDurationMs)
+  return bitrate && durationMs ? Math.round((bitrate * durationMs) / 8000) : undefined
+}
+
+function isHighFps(format: videoFormat) {
+  return (format.fps ?? 0) > 30
+}
+
+// Applies a preference only when something still matches; otherwise records it as relaxed
+function narrow(candidates: videoFormat[], keep: (f: videoFormat) => boolean, note: string, fallbacks: string[]) {
+  const kept = candidates.filter(keep)
+  if (kept.length) return kept
+  fallbacks.push(note)
+  return candidates
+}
+
+// Keeps what fits under maxFilesize; when nothing does, falls back to the single smallest candidate
+function narrowBySize(candidates: videoFormat[], maxFilesize: number | undefined, extra: (f: videoFormat) => number, fallbacks: string[]) {
+  if (!maxFilesize) return candidates
+  const sized = candidates.map((f) => ({ f, size: (estimateSize(f) ?? Infinity) + extra(f) }))
+  const fitting = sized.filter((c) => c.size <= maxFilesize).map((c) => c.f)
+  if (fitting.length) return fitting
+  fallbacks.push(`nothing fits maxFilesize=${maxFilesize}; using the smallest stream`)
+  return [sized.reduce((min, c) => (c.size < min.size ? c : min)).f]
+}
+
+// Fields shared by ytdl's videoFormat and StreamFormat, so /api/formats lists streams in the order selection ranks them
+type RankedFormat = { itag: number; height?: number; fps?: number; bitrate?: number; audioBitrate?: number }
+
+// Best first: height, frame rate, bitrate, then itag so ties are stable
+function compareVideoFormats(a: RankedFormat, b: RankedFormat) {
+  return (b.height ?? 0) - (a.height ?? 0) || (b.fps ?? 0) - (a.fps ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0) || a.itag - b.itag
+}
+
+function compareAudioFormats(a: RankedFormat, b: RankedFormat) {
+  return (b.audioBitrate ?? 0) - (a.audioBitrate ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0) || a.itag - b.itag
+}
+
+// Video codecs each output container can carry when muxing
+const CONTAINER_VIDEO_CODECS: Record<MergeContainer, RegExp> = { mp4: /^(avc1|av01)/, webm: /^(vp0?9|av01)/, mkv: /^/ }
+
+// `muxing`: the stream is remuxed, so the container preference limits codecs rather than the source container
+function rankVideo(candidates: videoFormat[], prefs: FormatPreferences, fallbacks: string[], muxing: boolean, extraSize: (f: videoFormat) => number) {
+  let pool = candidates
+  const { container, videoCodec, hdr, highFps } = prefs
+  if (container && container !== "mkv") {
+    const fits = muxing ? (f: videoFormat) => CONTAINER_VIDEO_CODECS[container].test(f.videoCodec ?? "") : (f: videoFormat) => f.container === container
+    pool = narrow(pool, fits, `no video stream fits ${container}`, fallbacks)
+  }
+  if (videoCodec) pool = narrow(pool, (f) => CODEC_PATTERNS[videoCodec].test(f.videoCodec ?? ""), `no ${videoCodec} video stream`, fallbacks)
+  // HDR looks washed out on SDR displays, so it is opt-in; without a preference SDR wins whenever there is any
+  if (hdr) pool = narrow(pool, isHdr, "no HDR stream", fallbacks)
+  else pool = narrow(pool, (f) => !isHdr(f), "only HDR streams", hdr === false ? fallbacks : [])
+  if (highFps !== undefined) {
+    pool = narrow(pool, (f) => isHighFps(f) === highFps, highFps ? "no high frame rate stream" : "only high frame rate streams", fallbacks)
+  }
+  pool = narrowBySize(pool, prefs.maxFilesize, extraSize, fallbacks)
+
+  const sorted = [...pool].sort(compareVideoFormats)
+  const { quality = "best" } = prefs
+  if (quality === "best") return sorted[0]
+  if (quality === "worst") return sorted[sorted.length - 1]
+  const atOrBelow = sorted.find((f) => (f.height ?? 0) <= quality)
+  const chosen = atOrBelow ?? sorted[sorted.length - 1]
+  if (chosen.height !== quality) fallbacks.push(`no ${quality}p stream; using ${chosen.height}p`)
+  return chosen
+}
+
+function rankAudio(candidates: videoFormat[], prefs: FormatPreferences, fallbacks: string[], codec?: "mp4a" | "opus") {
+  // On videos with dubbed tracks only the default (original) track is considered
+  const defaults = candidates.filter((f) => getAudioTrack(f)?.isDefault)
+  let pool = defaults.length ? defaults : candidates
+  if (codec) pool = narrow(pool, (f) => Boolean(f.audioCodec?.startsWith(codec)), `no ${codec} audio stream`, fallbacks)
+  const preferred = prefs.preferAudioCodec
+  if (preferred) pool = narrow(pool, (f) => Boolean(f.audioCodec?.startsWith(preferred)), "", [])
+  pool = narrowBySize(pool, prefs.maxFilesize, () => 0, fallbacks)
+  const sorted = [...pool].sort(compareAudioFormats)
+  return prefs.quality === "worst" ? sorted[sorted.length - 1] : sorted[0]
+}
+
+function fitsContainer(container: MergeContainer, video: videoFormat, audio: videoFormat) {
+  const audioCodec = audio.audioCodec ?? ""
+  if (!CONTAINER_VIDEO_CODECS[container].test(video.videoCodec ?? "")) return false
+  if (container === "mp4") return audioCodec.startsWith("mp4a")
+  if (container === "webm") return /^(opus|vorbis)/.test(audioCodec)
+  return true
+}
+
+// MP4 only for H.264 + AAC, which every player handles; VP9/AV1 with Opus or Vorbis is WebM;
+// any other pairing goes into Matroska, which takes everything
+export function mergeContainer(video: videoFormat, audio: videoFormat): MergeContainer {
+  if ((video.videoCodec ?? "").startsWith("avc1") && fitsContainer("mp4", video, audio)) return "mp4"
+  return fitsContainer("webm", video, audio) ? "webm" : "mkv"
+}
+
+// Audio codec a preferred container calls for; MKV takes any
+function audioCodecFor(container: MergeContainer | undefined): "mp4a" | "opus" | undefined {
+  if (container === "mp4") return "mp4a"
+  if (container === "webm") return "opus"
+  return undefined
+}
+
+function explicitItag(formats: videoFormat[], itag: number | undefined, fits: (f: videoFormat) => boolean, fallbacks: string[]) {
+  if (itag === undefined) return null
+  const format = formats.find((f) => f.itag === itag)
+  if (format && fits(format)) return format
+  fallbacks.push(format ? `itag ${itag} does not fit this download type` : `itag ${itag} is not available`)
+  return null
+}
+
+/*
+  Picks the stream(s) for a download mode. Deterministic for a given format list: preferences narrow the
+  candidates only while something still matches, and every relaxed preference is listed in `fallbacks`.
+  - video: one muxed (audio+video) stream, streamed as-is
+  - audio: the best audio-only stream (muxed only when there is none), for transcoding
+  - merge: a video-only stream plus the audio-only stream that pairs with its codec (AAC for H.264,
+    Opus for VP9/AV1), so the result stays in MP4 or WebM instead of falling back to MKV
+  Returns null when the video has no stream usable for the mode.
+*/
+export function selectFormat(formats: videoFormat[], mode: DownloadMode, prefs: FormatPreferences = {}): FormatSelection | null {
+  const fallbacks: string[] = []
+  const muxed = formats.filter((f) => f.hasAudio && f.hasVideo)
+  const videoOnly = formats.filter((f) => f.hasVideo && !f.hasAudio)
+  const audioOnly = formats.filter((f) => f.hasAudio && !f.hasVideo)
+
+  if (mode === "video") {
+    if (!muxed.length) return null
+    if (prefs.container === "mkv") fallbacks.push("no mkv muxed stream")
+    const format =
+      explicitItag(formats, prefs.itag, (f) => f.hasAudio && f.hasVideo, fallbacks) ?? rankVideo(muxed, prefs, fallbacks, false, () => 0)
+    return { mode, format, container: format.container === "webm" ? "webm" : "mp4", fallbacks }
+  }
+
+  if (mode === "audio") {
+    if (!audioOnly.length && !muxed.length) return null
+    const format =
+      explicitItag(formats, prefs.itag, (f) => f.hasAudio, fallbacks) ??
+      rankAudio(audioOnly.length ? audioOnly : muxed, prefs, fallbacks, audioCodecFor(prefs.container))
+    return { mode, format, container: format.container === "webm" ? "webm" : "mp4", fallbacks }
+  }
+
+  if (!videoOnly.length || !audioOnly.length) return null
+  const pinnedVideo = explicitItag(formats, prefs.itag, (f) => f.hasVideo && !f.hasAudio, [])
+  const pinnedAudio = pinnedVideo ? null : explicitItag(formats, prefs.itag, (f) => f.hasAudio && !f.hasVideo, fallbacks)
+  const audioCodec = (video: videoFormat) => audioCodecFor(prefs.container) ?? (video.videoCodec?.startsWith("avc1") ? "mp4a" : "opus")
+  // The audio each video candidate would be paired with, so maxFilesize covers both streams
+  const pairedAudio = (video: videoFormat) => pinnedAudio ?? rankAudio(audioOnly, prefs, [], audioCodec(video))
+  const video = pinnedVideo ?? rankVideo(videoOnly, prefs, fallbacks, true, (f) => estimateSize(pairedAudio(f)) ?? 0)
+  const audio = pinnedAudio ?? rankAudio(audioOnly, prefs, fallbacks, audioCodec(video))
+
+  let container = mergeContainer(video, audio)
+  if (prefs.container) {
+    if (fitsContainer(prefs.container, video, audio)) container = prefs.container
+    else fallbacks.push(`${video.videoCodec} + ${audio.audioCodec} does not fit ${prefs.container}; using ${container}`)
+  }
+  // Audio and video can both relax maxFilesize
+  return { mode, video, audio, container, fallbacks: [...new Set(fallbacks)] }
+}
+
+export function selectedFormats(selection: FormatSelection): videoFormat[] {
+  return selection.mode === "merge" ? [selection.video, selection.audio] : [selection.format]
+}
+
+// Value of the X-Format response header, e.g. "itag=137+140; quality=1080p; codecs=avc1.640028+mp4a.40.2; container=mp4"
+export function describeSelection(selection: FormatSelection): string {
+  const streams = selectedFormats(selection)
+  const video = streams.find((f) => f.hasVideo)
+  return [
+    `itag=${streams.map((f) => f.itag).join("+")}`,
+    video?.qualityLabel ? `quality=${video.qualityLabel}` : `audioBitrate=${streams[0].audioBitrate ?? "unknown"}`,
+    `codecs=${streams.map((f) => (f.hasVideo && f.hasAudio ? f.codecs : (f.videoCodec ?? f.audioCodec))).join("+")}`,
+    `container=${selection.container}`,
+  ].join("; ")
+}
+
+export function listFormats(formats: videoFormat[], prefs: FormatPreferences = {}): FormatListing {
+  const described = formats.map(describeFormat)
+  const video = selectFormat(formats, "video", prefs)
+  const audio = selectFormat(formats, "audio", prefs)
+  const merge = selectFormat(formats, "merge", prefs)
+  return {
+    muxed: described.filter((f) => f.kind === "muxed").sort(compareVideoFormats),
+    videoOnly: described.filter((f) => f.kind === "video").sort(compareVideoFormats),
+    audioOnly: described.filter((f) => f.kind === "audio").sort(compareAudioFormats),
+    recommended: {
+      video: video?.mode === "video" ? { itag: video.format.itag, fallbacks: video.fallbacks } : null,
+      audio: audio?.mode === "audio" ? { itag: audio.format.itag, fallbacks: audio.fallbacks } : null,
+      merge:
+        merge?.mode === "merge"
+          ? { video: merge.video.itag, audio: merge.audio.itag, container: merge.container, fallbacks: merge.fallbacks }
+          : null,
+    },
+  }
+}
@@ -0,0 +1,94 @@
+/*
+  Resilient fetch for upstream GET calls.
+  - Each attempt gets its own timeout; the caller's signal (client disconnect) cancels everything.
+  - 5xx responses and network errors are retried with bounded exponential backoff, honoring Retry-After.
+*/
+
+import { type ApiError, RequestAbortedError, UpstreamNetworkError, UpstreamTimeoutError } from "@/api/errors"
+
+export type RetryOptions = {
+  headers?: HeadersInit
+  signal?: AbortSignal
+  timeoutMs?: number
+  retries?: number
+  // Runs before every attempt, retries included; throwing stops the call
+  beforeAttempt?: () => void
+  // Runs for every response that arrives, retried ones included, but not for network errors or timeouts
+  onResponse?: (res: Response) => void
+}
+
+export const DEFAULT_TIMEOUT_MS = 10_000
+export const DEFAULT_RETRIES = 2
+
+const BASE_DELAY_MS = 250
+// A Retry-After longer than this is not worth holding the caller's request open for
+const MAX_DELAY_MS = 5_000
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504])
+
+// Retry-After is either delay-seconds or an HTTP date
+function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000
+  const at = Date.parse(value)
+  return Number.isNaN(at) ? null : Math.max(at - now, 0)
+}
+
+function backoffDelay(attempt: number, retryAfter: string | null): number | null {
+  const requested = parseRetryAfter(retryAfter)
+  if (requested !== null) return requested <= MAX_DELAY_MS ? requested : null
+  // Full jitter keeps concurrent retries from hitting Google in lockstep
+  return Math.round(Math.random() * Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS))
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestAbortedError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(timer)
+      reject(new RequestAbortedError())
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+}
+
+// Returns the final Response, which may still be a non-2xx the caller has to interpret
+export async function fetchWithRetry(url: string, options: RetryOptions = {}): Promise<Response> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES } = options
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new RequestAbortedError()
+    options.beforeAttempt?.()
+
+    const timeout = AbortSignal.timeout(timeoutMs)
+    let res: Response | null = null
+    // Set when no response arrived; otherwise the last retryable response is handed back as-is
+    let failure: ApiError | null = null
+    try {
+      res = await fetch(url, {
+        headers: options.headers,
+        cache: "no-store",
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      })
+      options.onResponse?.(res)
+      if (!RETRYABLE_STATUSES.has(res.status)) return res
+    } catch (err: unknown) {
+      if (signal?.aborted) throw new RequestAbortedError()
+      failure = timeout.aborted
+        ? new UpstreamTimeoutError(`YouTube API request timed out after ${timeoutMs}ms`)
+        : new UpstreamNetworkError(`Unable to reach the YouTube API: ${err instanceof Error ? err.message : String(err)}`)
+    }
+
+    const delay = attempt < retries ? backoffDelay(attempt, res?.headers.get("retry-after") ?? null) : null
+    if (delay === null) {
+      if (res) return res
+      throw failure
+    }
+    // Release the connection of the discarded response before waiting
+    await res?.body?.cancel().catch(() => {})
+    await sleep(delay, signal)
+  }
+}
@@ -0,0 +1,103 @@
+/*
+  ID3v2.3 tags for MP3 downloads.
+  - ffmpeg cannot finish an ID3 header once it has streamed part of it (the tag size stays 0 with cover
+    art on a pipe), so the whole tag is built here and sent ahead of ffmpeg's untagged MP3 frames.
+  - v2.3 with UTF-16 text is what most players and library importers read; chapters use the ID3
+    chapter addendum (CTOC plus one CHAP per chapter).
+*/
+
+import { Transform } from "node:stream"
+import type { MediaTags } from "@/api/tags"
+
+// CTOC stores the child count in one byte
+const MAX_CHAPTERS = 255
+
+function u32(value: number) {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32BE(value >>> 0)
+  return buf
+}
+
+// Encoding byte 1: UTF-16 with a byte order mark
+function utf16(text: string, terminated = false) {
+  return Buffer.from(`\ufeff${text}${terminated ? "\0" : ""}`, "utf16le")
+}
+
+function latin1(text: string) {
+  return Buffer.from(`${text}\0`, "latin1")
+}
+
+// v2.3 frame sizes are plain 32-bit integers (only the tag header is synchsafe)
+function frame(id: string, ...body: Buffer[]) {
+  const data = Buffer.concat(body)
+  return Buffer.concat([Buffer.from(id, "latin1"), u32(data.length), Buffer.alloc(2), data])
+}
+
+function textFrame(id: string, text: string) {
+  return frame(id, Buffer.from([1]), utf16(text))
+}
+
+function chapterFrames(tags: MediaTags): Buffer[] {
+  const chapters = tags.chapters.slice(0, MAX_CHAPTERS)
+  if (!chapters.length) return []
+  const ids = chapters.map((_, i) => `chp${i}`)
+  // Flags 0x03: top-level table of contents, entries in order
+  const toc = frame("CTOC", latin1("toc"), Buffer.from([0x03, ids.length]), ...ids.map(latin1))
+  const chaps = chapters.map((chapter, i) =>
+    frame(
+      "CHAP",
+      latin1(ids[i]),
+      u32(Math.round(chapter.start * 1000)),
+      u32(Math.round(chapter.end * 1000)),
+      // Byte offsets are unknown while streaming
+      u32(0xffffffff),
+      u32(0xffffffff),
+      textFrame("TIT2", chapter.title)
+    )
+  )
+  return [toc, ...chaps]
+}
+
+export function buildId3Tag(tags: MediaTags): Buffer {
+  const frames: Buffer[] = [textFrame("TIT2", tags.title), textFrame("TPE1", tags.artist)]
+  if (tags.album) frames.push(textFrame("TALB", tags.album))
+  if (tags.track) frames.push(textFrame("TRCK", `${tags.track.number}/${tags.track.total}`))
+  if (tags.date) {
+    const [year, month, day] = tags.date.split("-")
+    frames.push(textFrame("TYER", year))
+    // TDAT is DDMM
+    if (month && day) frames.push(textFrame("TDAT", `${day}${month}`))
+  }
+  // COMM: encoding, language, empty short description, text
+  frames.push(frame("COMM", Buffer.from([1]), Buffer.from("eng", "latin1"), utf16("", true), utf16(tags.comment)))
+  if (tags.cover) {
+    // APIC: encoding, MIME type, picture type 3 (front cover), empty description, image
+    frames.push(frame("APIC", Buffer.from([0]), latin1(tags.cover.mimeType), Buffer.from([3]), latin1(""), tags.cover.data))
+  }
+  frames.push(...chapterFrames(tags))
+
+  const body = Buffer.concat(frames)
+  const size = body.length
+  // Synchsafe: 7 bits per byte
+  const header = Buffer.from([
+    0x49, 0x44, 0x33, // "ID3"
+    3, 0, 0,
+    (size >>> 21) & 0x7f,
+    (size >>> 14) & 0x7f,
+    (size >>> 7) & 0x7f,
+    size & 0x7f,
+  ])
+  return Buffer.concat([header, body])
+}
+
+// Sends the tag ahead of the MP3 frames coming out of ffmpeg
+export function id3Tagger(tags: MediaTags): Transform {
+  let tag: Buffer | null = buildId3Tag(tags)
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (tag) this.push(tag)
+      tag = null
+      callback(null, chunk)
+    },
+  })
+}
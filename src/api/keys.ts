@@ -0,0 +1,129 @@
+/*
+  YouTube Data API key pool.
+  - YOUTUBE_DATA_API_KEY may hold several comma-separated keys; calls rotate through them round-robin.
+  - A key that runs out of quota cools down until the daily reset (midnight Pacific time).
+  - Health is kept in memory per server instance and reported by the admin status endpoint.
+*/
+
+import { ConfigurationError, type YoutubeApiError } from "@/api/errors"
+
+type KeyState = {
+  requests: number
+  failures: number
+  cooldownUntil: number | null
+  lastError: { code: string; reason: string | null; message: string; at: string } | null
+}
+
+export type ApiKeyStatus = {
+  index: number
+  key: string // masked
+  healthy: boolean
+  cooldownUntil: string | null
+  requests: number
+  failures: number
+  lastError: KeyState["lastError"]
+}
+
+const keyStates = new Map<string, KeyState>()
+let rotation = 0
+
+// Read on every call so a redeployed environment does not need a restart to pick up new keys
+function readKeys(): string[] {
+  const raw = process.env.YOUTUBE_DATA_API_KEY ?? ""
+  return [...new Set(raw.split(",").map((k) => k.trim()).filter(Boolean))]
+}
+
+function stateFor(key: string): KeyState {
+  let state = keyStates.get(key)
+  if (!state) {
+    state = { requests: 0, failures: 0, cooldownUntil: null, lastError: null }
+    keyStates.set(key, state)
+  }
+  return state
+}
+
+function isCoolingDown(state: KeyState, now: number) {
+  return state.cooldownUntil !== null && state.cooldownUntil > now
+}
+
+const PACIFIC_DATE = new Intl.DateTimeFormat("en-US", {
+  timeZone: "America/Los_Angeles",
+  year: "numeric",
+  month: "numeric",
+  day: "numeric",
+  timeZoneName: "shortOffset",
+})
+
+function pacificParts(at: number) {
+  const parts = Object.fromEntries(PACIFIC_DATE.formatToParts(at).map((p) => [p.type, p.value]))
+  // timeZoneName is "GMT-7" or "GMT-8"
+  const offsetHours = Number(parts.timeZoneName.replace("GMT", "") || 0)
+  return { year: Number(parts.year), month: Number(parts.month), day: Number(parts.day), offsetHours }
+}
+
+// Pacific calendar date ("2025-09-22") of the quota day a timestamp falls in
+export function quotaDay(now = Date.now()): string {
+  const { year, month, day } = pacificParts(now)
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+// YouTube resets daily quotas at midnight Pacific time; DST changes at 2am, so the offset one day
+// ahead at UTC midnight is the offset in effect at the next Pacific midnight
+export function nextQuotaReset(now = Date.now()): number {
+  const today = pacificParts(now)
+  const midnightAsUtc = Date.UTC(today.year, today.month - 1, today.day + 1)
+  return midnightAsUtc - pacificParts(midnightAsUtc).offsetHours * 60 * 60 * 1000
+}
+
+// Healthy keys in the order to try them, starting one further along the pool on every call
+export function getKeyRotation(now = Date.now()): string[] {
+  const keys = readKeys()
+  if (!keys.length) throw new ConfigurationError("Missing YOUTUBE_DATA_API_KEY in environment")
+
+  const start = rotation++ % keys.length
+  const ordered = [...keys.slice(start), ...keys.slice(0, start)]
+  return ordered.filter((key) => !isCoolingDown(stateFor(key), now))
+}
+
+export function recordKeyUse(key: string) {
+  stateFor(key).requests++
+}
+
+export function recordKeyFailure(key: string, err: YoutubeApiError) {
+  const state = stateFor(key)
+  state.failures++
+  state.lastError = { code: err.code, reason: err.reason, message: err.message, at: new Date().toISOString() }
+}
+
+export function markKeyExhausted(key: string, err: YoutubeApiError, now = Date.now()) {
+  recordKeyFailure(key, err)
+  stateFor(key).cooldownUntil = nextQuotaReset(now)
+}
+
+// Earliest time any key becomes usable again, for error messages when the whole pool is exhausted
+export function nextKeyAvailableAt(now = Date.now()): number | null {
+  const times = readKeys()
+    .map((key) => stateFor(key).cooldownUntil)
+    .filter((t): t is number => t !== null && t > now)
+  return times.length ? Math.min(...times) : null
+}
+
+export function maskKey(key: string) {
+  return key.length <= 8 ? "****" : `${key.slice(0, 4)}…${key.slice(-4)}`
+}
+
+export function getKeyPoolStatus(now = Date.now()): ApiKeyStatus[] {
+  return readKeys().map((key, index) => {
+    const state = stateFor(key)
+    const coolingDown = isCoolingDown(state, now)
+    return {
+      index,
+      key: maskKey(key),
+      healthy: !coolingDown,
+      cooldownUntil: coolingDown && state.cooldownUntil ? new Date(state.cooldownUntil).toISOString() : null,
+      requests: state.requests,
+      failures: state.failures,
+      lastError: state.lastError,
+    }
+  })
+}
@@ -0,0 +1,89 @@
+/*
+  Video duration parsing and derived metrics.
+  - Converts ISO 8601 durations (PT4M13S) to seconds and a clock-style string.
+  - Derives engagement rate, views per day and a Shorts heuristic from the normalized payload.
+*/
+
+export type YoutubeVideoMetrics = {
+  // (likes + comments) / views, as a fraction (0.042 = 4.2%)
+  engagementRate?: number
+  viewsPerDay?: number
+  isShort: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Shorts can run up to 3 minutes; anything up to 60s is treated as a Short even without a #shorts tag
+const SHORTS_MAX_SECONDS = 180
+const SHORTS_CERTAIN_SECONDS = 60
+
+export function parseIsoDuration(value: string | undefined): number | null {
+  if (!value) return null
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/)
+  if (!match) return null
+  const [, weeks, days, hours, minutes, seconds] = match
+  return (
+    Number(weeks ?? 0) * 7 * 86400 +
+    Number(days ?? 0) * 86400 +
+    Number(hours ?? 0) * 3600 +
+    Number(minutes ?? 0) * 60 +
+    Math.floor(Number(seconds ?? 0))
+  )
+}
+
+// 253 -> "PT4M13S", the inverse of parseIsoDuration for providers that only report seconds
+export function toIsoDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const time = `${hours ? `${hours}H` : ""}${minutes ? `${minutes}M` : ""}${seconds || (!hours && !minutes) ? `${seconds}S` : ""}`
+  return `PT${time}`
+}
+
+// 253 -> "4:13", 3723 -> "1:02:03"
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const ss = String(seconds).padStart(2, "0")
+  if (hours) return `${hours}:${String(minutes).padStart(2, "0")}:${ss}`
+  return `${minutes}:${ss}`
+}
+
+type MetricsInput = {
+  title: string
+  description: string
+  publishedAt: string
+  tags?: string[]
+  durationSeconds?: number
+  statistics?: {
+    viewCount?: number
+    likeCount?: number
+    commentCount?: number
+  }
+}
+
+function round(value: number, digits: number) {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+export function deriveVideoMetrics(video: MetricsInput, now = Date.now()): YoutubeVideoMetrics {
+  const views = video.statistics?.viewCount
+  const likes = video.statistics?.likeCount
+  const comments = video.statistics?.commentCount
+
+  const engagementRate =
+    views && (likes !== undefined || comments !== undefined) ? round(((likes ?? 0) + (comments ?? 0)) / views, 4) : undefined
+
+  const publishedAt = Date.parse(video.publishedAt)
+  // Clamp to one day so videos published minutes ago do not report inflated rates
+  const ageDays = Number.isNaN(publishedAt) ? undefined : Math.max((now - publishedAt) / DAY_MS, 1)
+  const viewsPerDay = views !== undefined && ageDays !== undefined ? round(views / ageDays, 1) : undefined
+
+  const duration = video.durationSeconds
+  const mentionsShorts = [video.title, video.description, ...(video.tags ?? [])].some((text) => /#shorts?\b/i.test(text))
+  const isShort =
+    duration !== undefined && duration > 0 && (duration <= SHORTS_CERTAIN_SECONDS || (duration <= SHORTS_MAX_SECONDS && mentionsShorts))
+
+  return { engagementRate, viewsPerDay, isShort }
+}
@@ -0,0 +1,205 @@
+/*
+  iTunes-style metadata for fragmented MP4/M4A downloads.
+  - Streamed MP4 is written with an empty moov up front, before ffmpeg would have the cover art, so the
+    moov is rewritten here instead: any udta ffmpeg wrote is replaced with ours (ilst atoms, covr and
+    Nero chpl chapters).
+  - Fragments are written with default_base_moof, so their data offsets are relative to each moof and
+    growing the moov does not invalidate them. The random access index at the end (mfra/tfra) holds
+    absolute moof offsets, so those are shifted by the size the moov grew.
+*/
+
+import { Transform } from "node:stream"
+import type { MediaTags } from "@/api/tags"
+
+// Data type indicators for ilst values
+const BINARY = 0
+const UTF8 = 1
+const JPEG = 13
+const PNG = 14
+
+// chpl stores the chapter count and each title length in one byte
+const MAX_CHAPTERS = 255
+// Give up on tagging (and pass the output through) if no moov shows up this early
+const MAX_HEADER_BYTES = 4 * 1024 * 1024
+
+function u32(value: number) {
+  const buf = Buffer.alloc(4)
+  buf.writeUInt32BE(value >>> 0)
+  return buf
+}
+
+// Atom names like "©nam" are MacRoman/latin1
+function box(type: string, ...payload: Buffer[]) {
+  const data = Buffer.concat(payload)
+  return Buffer.concat([u32(data.length + 8), Buffer.from(type, "latin1"), data])
+}
+
+function item(type: string, dataType: number, value: Buffer) {
+  return box(type, box("data", u32(dataType), u32(0), value))
+}
+
+function textItem(type: string, text: string) {
+  return item(type, UTF8, Buffer.from(text, "utf8"))
+}
+
+function chplBox(tags: MediaTags) {
+  const chapters = tags.chapters.slice(0, MAX_CHAPTERS)
+  const entries = chapters.map((chapter) => {
+    const start = Buffer.alloc(8)
+    // 100 ns units
+    start.writeBigUInt64BE(BigInt(Math.round(chapter.start * 1e7)))
+    let title = Buffer.from(chapter.title, "utf8")
+    if (title.length > 255) title = title.subarray(0, 255)
+    return Buffer.concat([start, Buffer.from([title.length]), title])
+  })
+  // Version 1, then a reserved word
+  return box("chpl", Buffer.from([1, 0, 0, 0]), u32(0), Buffer.from([entries.length]), ...entries)
+}
+
+export function buildUdta(tags: MediaTags): Buffer {
+  const items = [textItem("©nam", tags.title), textItem("©ART", tags.artist)]
+  if (tags.album) items.push(textItem("©alb", tags.album))
+  if (tags.track) {
+    // trkn: reserved, track number, total, reserved (16 bits each)
+    const trkn = Buffer.alloc(8)
+    trkn.writeUInt16BE(tags.track.number, 2)
+    trkn.writeUInt16BE(tags.track.total, 4)
+    items.push(item("trkn", BINARY, trkn))
+  }
+  if (tags.date) items.push(textItem("©day", tags.date))
+  items.push(textItem("©cmt", tags.comment))
+  if (tags.cover) items.push(item("covr", tags.cover.mimeType === "image/png" ? PNG : JPEG, tags.cover.data))
+
+  // meta is a full box; its hdlr marks the contents as iTunes metadata ("mdir")
+  const hdlr = box("hdlr", u32(0), u32(0), Buffer.from("mdir", "latin1"), Buffer.from("appl", "latin1"), u32(0), u32(0), Buffer.from([0]))
+  const meta = box("meta", u32(0), hdlr, box("ilst", ...items))
+  return box("udta", meta, ...(tags.chapters.length ? [chplBox(tags)] : []))
+}
+
+// Returns moov with its udta replaced by `udta`, or null when the box layout is not understood
+function replaceUdta(moov: Buffer, udta: Buffer): Buffer | null {
+  const children: Buffer[] = []
+  for (let offset = 8; offset < moov.length; ) {
+    const size = moov.readUInt32BE(offset)
+    if (size < 8 || offset + size > moov.length) return null
+    if (moov.toString("latin1", offset + 4, offset + 8) !== "udta") children.push(moov.subarray(offset, offset + size))
+    offset += size
+  }
+  return box("moov", ...children, udta)
+}
+
+// Shifts the absolute moof offsets in each tfra of an mfra box by `delta` bytes
+function shiftMfra(mfra: Buffer, delta: number): Buffer {
+  const out = Buffer.from(mfra)
+  for (let offset = 8; offset + 8 <= out.length; ) {
+    const size = out.readUInt32BE(offset)
+    if (size < 8 || offset + size > out.length) break
+    if (out.toString("latin1", offset + 4, offset + 8) === "tfra") {
+      const version = out[offset + 8]
+      // Full box header, track_ID, then the byte lengths of traf/trun/sample numbers (minus one)
+      const lengths = out.readUInt32BE(offset + 16)
+      const count = out.readUInt32BE(offset + 20)
+      const numbersSize = ((lengths >> 4) & 3) + ((lengths >> 2) & 3) + (lengths & 3) + 3
+      let p = offset + 24
+      for (let i = 0; i < count && p + (version === 1 ? 16 : 8) <= offset + size; i++) {
+        if (version === 1) {
+          out.writeBigUInt64BE(out.readBigUInt64BE(p + 8) + BigInt(delta), p + 8)
+          p += 16
+        } else {
+          out.writeUInt32BE(out.readUInt32BE(p + 4) + delta, p + 4)
+          p += 8
+        }
+        p += numbersSize
+      }
+    }
+    offset += size
+  }
+  return out
+}
+
+type TaggedHead = { head: Buffer; rest: Buffer; delta: number }
+
+// Splits the output at the end of the moov and returns the rewritten part, "incomplete" until the moov
+// has arrived, or null when the layout is not the ftyp+moov+fragments ffmpeg writes
+function tagHead(head: Buffer, udta: Buffer): TaggedHead | "incomplete" | null {
+  for (let offset = 0; ; ) {
+    if (offset + 8 > head.length) return "incomplete"
+    const size = head.readUInt32BE(offset)
+    const type = head.toString("latin1", offset + 4, offset + 8)
+    // 64-bit or to-end sizes, or media before the moov
+    if (size < 8 || type === "moof" || type === "mdat") return null
+    if (offset + size > head.length) return "incomplete"
+    if (type === "moov") {
+      const moov = replaceUdta(head.subarray(offset, offset + size), udta)
+      if (!moov) return null
+      return { head: Buffer.concat([head.subarray(0, offset), moov]), rest: head.subarray(offset + size), delta: moov.length - size }
+    }
+    offset += size
+  }
+}
+
+// Passes ffmpeg's fragmented MP4 through, rewriting the moov on its way past and shifting the index
+// that follows the fragments; output it cannot make sense of is passed through untagged
+export function mp4Tagger(tags: MediaTags): Transform {
+  const udta = buildUdta(tags)
+  let head: Buffer | null = Buffer.alloc(0)
+  let delta = 0
+  // After the moov: bytes left in the current top-level box, and a box header (or an mfra) being collected
+  let remaining = 0
+  let pending = Buffer.alloc(0)
+
+  function walk(data: Buffer, push: (chunk: Buffer) => void) {
+    while (data.length) {
+      if (remaining > 0) {
+        const n = Math.min(remaining, data.length)
+        push(data.subarray(0, n))
+        remaining -= n
+        data = data.subarray(n)
+        continue
+      }
+      pending = Buffer.concat([pending, data])
+      data = Buffer.alloc(0)
+      if (pending.length < 16) return
+      let size = pending.readUInt32BE(0)
+      if (size === 1) size = Number(pending.readBigUInt64BE(8))
+      const type = pending.toString("latin1", 4, 8)
+      if (type === "mfra" && size >= 8 && size <= MAX_HEADER_BYTES) {
+        if (pending.length < size) return
+        push(shiftMfra(pending.subarray(0, size), delta))
+        data = pending.subarray(size)
+      } else {
+        // To-end or malformed sizes: pass everything else through as-is
+        remaining = size < 8 ? Infinity : size
+        data = pending
+      }
+      pending = Buffer.alloc(0)
+    }
+  }
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const push = (data: Buffer) => {
+        this.push(data)
+      }
+      if (!head) {
+        if (delta) walk(chunk, push)
+        else push(chunk)
+        return callback()
+      }
+      head = Buffer.concat([head, chunk])
+      const tagged = tagHead(head, udta)
+      if (tagged === "incomplete" && head.length <= MAX_HEADER_BYTES) return callback()
+      if (tagged && tagged !== "incomplete") {
+        push(tagged.head)
+        delta = tagged.delta
+        if (delta) walk(tagged.rest, push)
+        else push(tagged.rest)
+      } else push(head)
+      head = null
+      callback()
+    },
+    flush(callback) {
+      callback(null, head?.length || pending.length ? Buffer.concat([head ?? Buffer.alloc(0), pending]) : undefined)
+    },
+  })
+}
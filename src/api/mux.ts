@@ -0,0 +1,96 @@
+/*
+  Muxing of separate video and audio streams.
+  - fluent-ffmpeg takes a single input stream, so ffmpeg is spawned directly with the video on fd 3
+    and the audio on fd 4; both are downloaded in parallel and copied without re-encoding.
+  - MP4 output is fragmented so it can be streamed before ffmpeg has seen the end of the input.
+  - Clips can instead be re-encoded to H.264/AAC for a frame-accurate cut.
+  - Tags (title, channel, cover art, ...) are added by ffmpeg or, for MP4, spliced into its output.
+*/
+
+import { spawn } from "node:child_process"
+import { PassThrough, type Readable, type Writable } from "node:stream"
+import ffmpegPath from "ffmpeg-static"
+import { ConfigurationError } from "@/api/errors"
+import type { MergeContainer } from "@/api/formats"
+import { applyTags, taggingArgs, type MediaTags } from "@/api/tags"
+
+export type MuxOptions = {
+  container: MergeContainer
+  // Optional cut, in seconds; with stream copy it starts at a keyframe near `start`
+  start?: number
+  duration?: number
+  // Re-encode to H.264/AAC instead of copying, so the cut lands on the exact frame
+  reencode?: boolean
+  tags?: MediaTags
+}
+
+const MUXERS: Record<MergeContainer, string> = { mp4: "mp4", webm: "webm", mkv: "matroska" }
+
+export const MERGE_MIME_TYPES: Record<MergeContainer, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mkv: "video/x-matroska",
+}
+
+// Keep the end of ffmpeg's log for error messages
+const MAX_LOG_LENGTH = 2000
+
+// Fast enough to keep up with a download on modest hardware; CRF 20 is visually close to the source
+export const REENCODE_VIDEO_ARGS = ["-c:v", "libx264", "-preset", "veryfast", "-crf", "20", "-c:a", "aac", "-b:a", "192k"]
+
+function buildArgs({ container, start, duration, reencode, tags }: MuxOptions): string[] {
+  const seek = start ? ["-ss", String(start)] : []
+  return [
+    "-hide_banner",
+    "-loglevel", "error",
+    ...seek, "-i", "pipe:3",
+    ...seek, "-i", "pipe:4",
+    "-map", "0:v:0",
+    "-map", "1:a:0",
+    ...(reencode ? REENCODE_VIDEO_ARGS : ["-c", "copy"]),
+    ...(duration ? ["-t", String(duration)] : []),
+    ...(tags ? taggingArgs(MUXERS[container], tags) : []),
+    // default_base_moof keeps fragment offsets valid when the moov is rewritten with tags
+    ...(container === "mp4" ? ["-movflags", "frag_keyframe+empty_moov+default_base_moof"] : []),
+    "-f", MUXERS[container],
+    "pipe:1",
+  ]
+}
+
+// Returns ffmpeg's output; destroying it (e.g. when the client goes away) stops ffmpeg and both inputs
+export function muxStreams(video: Readable, audio: Readable, options: MuxOptions): Readable {
+  if (!ffmpegPath) throw new ConfigurationError("ffmpeg is not available on this server")
+
+  const child = spawn(ffmpegPath as string, buildArgs(options), { stdio: ["ignore", "pipe", "pipe", "pipe", "pipe"] })
+  // stdout ends before the exit code is known; the output only ends once ffmpeg has exited cleanly
+  const output = new PassThrough()
+  child.stdout?.pipe(output, { end: false })
+  const videoInput = child.stdio[3] as Writable
+  const audioInput = child.stdio[4] as Writable
+
+  // ffmpeg closing its inputs early surfaces as EPIPE on the writers; the exit code reports the real cause
+  videoInput.on("error", () => {})
+  audioInput.on("error", () => {})
+  video.pipe(videoInput)
+  audio.pipe(audioInput)
+
+  let log = ""
+  child.stderr?.on("data", (chunk: Buffer) => {
+    log = (log + chunk.toString()).slice(-MAX_LOG_LENGTH)
+  })
+
+  video.on("error", (err) => output.destroy(err))
+  audio.on("error", (err) => output.destroy(err))
+  child.on("error", (err) => output.destroy(err))
+  child.on("close", (code, signal) => {
+    if (code === 0) output.end()
+    else output.destroy(new Error(`ffmpeg exited with ${signal ?? `code ${code}`}${log.trim() ? `: ${log.trim()}` : ""}`))
+  })
+  output.on("close", () => {
+    if (output.readableEnded) return
+    video.destroy()
+    audio.destroy()
+    if (child.exitCode === null) child.kill("SIGKILL")
+  })
+  return options.tags ? applyTags(output, MUXERS[options.container], options.tags) : output
+}
@@ -0,0 +1,189 @@
+/*
+  YouTube input parser.
+  - Turns a pasted URL, ID or handle into a typed ParsedYoutubeInput.
+  - Keeps deep-link context (start time, playlist and index) so routes can pass it through.
+*/
+
+export type YoutubeInputKind = "video" | "short" | "live" | "playlist" | "channel"
+
+export type ChannelRef =
+  | { type: "id"; value: string }
+  | { type: "handle"; value: string }
+  | { type: "custom"; value: string }
+  // youtube.com/name with nothing after it: usually a legacy vanity URL, but never looked up through search
+  | { type: "vanity"; value: string }
+  | { type: "username"; value: string }
+
+export type ParsedYoutubeInput = {
+  kind: YoutubeInputKind
+  videoId: string | null
+  channel: ChannelRef | null
+  playlistId: string | null
+  // 1-based, as in YouTube's `index=` parameter
+  playlistIndex: number | null
+  startSeconds: number | null
+  // Hostname as pasted (e.g. "m.youtube.com"); null for bare IDs and handles
+  host: string | null
+}
+
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/
+// Playlist IDs carry a type prefix (PL user list, UU uploads, LL likes, RD mixes, OL albums, ...)
+const PLAYLIST_ID_PATTERN = /^(PL|UU|LL|FL|RD|OL|UL|PU)[a-zA-Z0-9_-]{10,}$/
+const LIST_PARAM_PATTERN = /^[a-zA-Z0-9_-]+$/
+const CHANNEL_ID_PATTERN = /^UC[a-zA-Z0-9_-]{22}$/
+const HANDLE_PATTERN = /^@?[a-zA-Z0-9._-]{3,30}$/
+
+const YOUTUBE_HOSTS = new Set(["youtube.com", "m.youtube.com", "music.youtube.com", "gaming.youtube.com", "youtube-nocookie.com"])
+const SHORT_LINK_HOSTS = new Set(["youtu.be", "m.youtu.be"])
+
+// First path segments that belong to other YouTube pages, not legacy vanity channel URLs
+const RESERVED_PATHS = new Set([
+  "watch", "shorts", "embed", "live", "playlist", "results", "feed", "v", "e",
+  "attribution_link", "redirect", "channel", "c", "user", "hashtag", "post", "clip",
+  "about", "account", "ads", "creators", "gaming", "howyoutubeworks", "jobs", "kids", "movies",
+  "music", "new", "news", "paid_memberships", "podcasts", "premium", "reporthistory", "signin",
+  "sports", "store", "t", "trends", "upload", "yt",
+])
+// Legacy vanity names are plain alphanumerics, so file-like paths (robots.txt) never match
+const VANITY_PATTERN = /^[a-zA-Z0-9_-]+$/
+
+// Any YouTube-owned host, including subdomains such as "www." and "m."
+export function isYoutubeHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, "")
+  return YOUTUBE_HOSTS.has(host) || SHORT_LINK_HOSTS.has(host) || host.endsWith(".youtube.com")
+}
+
+// Accepts "1h2m3s", "90s", "2m", "1:02:03", "02:03" and plain seconds ("123", "123.5")
+export function parseTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null
+  const text = value.trim().toLowerCase()
+
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.floor(Number(text))
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/)
+  if (clock) return Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/)
+  if (units && (units[1] || units[2] || units[3])) {
+    return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0)
+  }
+  return null
+}
+
+function toUrl(input: string): URL | null {
+  try {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(input)) return new URL(input)
+    if (input.startsWith("//")) return new URL(`https:${input}`)
+    // Scheme-less links such as "youtu.be/ID" or "www.youtube.com/watch?v=ID"
+    if (/^([a-z0-9-]+\.)+[a-z]{2,}([/?#]|$)/i.test(input)) return new URL(`https://${input}`)
+    return null
+  } catch {
+    return null
+  }
+}
+
+function empty(kind: YoutubeInputKind, host: string | null): ParsedYoutubeInput {
+  return { kind, videoId: null, channel: null, playlistId: null, playlistIndex: null, startSeconds: null, host }
+}
+
+function parseChannelPath(segments: string[]): ChannelRef | null {
+  const [first, second] = segments
+  if (!first) return null
+  if (first.startsWith("@")) return { type: "handle", value: first }
+  if (first === "channel" && second && CHANNEL_ID_PATTERN.test(second)) return { type: "id", value: second }
+  if (first === "c" && second) return { type: "custom", value: second }
+  if (first === "user" && second) return { type: "username", value: second }
+  // Only as the whole path: youtube.com/name/videos or /t/terms are not taken as vanity URLs
+  if (segments.length === 1 && VANITY_PATTERN.test(first) && !RESERVED_PATHS.has(first.toLowerCase())) {
+    return { type: "vanity", value: first }
+  }
+  return null
+}
+
+function parseUrl(url: URL, host: string): ParsedYoutubeInput | null {
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, "")
+  const params = url.searchParams
+  let segments: string[]
+  try {
+    segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return null
+  }
+
+  let kind: YoutubeInputKind | null = null
+  let videoId: string | null = null
+
+  if (SHORT_LINK_HOSTS.has(hostname)) {
+    kind = "video"
+    videoId = segments[0] ?? null
+  } else if (YOUTUBE_HOSTS.has(hostname)) {
+    const [first, second] = segments
+
+    // attribution_link wraps the real target path in `u`, e.g. u=/watch?v=ID&feature=share
+    if (first === "attribution_link") {
+      const target = params.get("u")
+      return target?.startsWith("/") ? parseUrl(new URL(target, url.origin), host) : null
+    }
+
+    if (first === "watch") {
+      kind = "video"
+      videoId = params.get("v")
+    } else if (first === "shorts") {
+      kind = "short"
+      videoId = second ?? null
+    } else if (first === "live") {
+      kind = "live"
+      videoId = second ?? null
+    } else if (first === "embed" || first === "v" || first === "e") {
+      // /embed/videoseries?list=... embeds a whole playlist
+      if (second !== "videoseries") {
+        kind = "video"
+        videoId = second ?? null
+      }
+    } else if (first !== "playlist") {
+      const channel = parseChannelPath(segments)
+      if (channel) return { ...empty("channel", host), channel }
+    }
+  } else {
+    return null
+  }
+
+  if (videoId !== null && !VIDEO_ID_PATTERN.test(videoId)) return null
+
+  const list = params.get("list")
+  const playlistId = list && LIST_PARAM_PATTERN.test(list) ? list : null
+  if (!videoId && !playlistId) return null
+
+  const index = Number(params.get("index"))
+  // Start offsets appear as ?t=, ?start= (embeds), ?time_continue= or a #t= fragment
+  const hashTime = new URLSearchParams(url.hash.replace(/^#/, "")).get("t")
+  const start = parseTimestamp(params.get("t") ?? params.get("start") ?? params.get("time_continue") ?? hashTime)
+
+  return {
+    kind: videoId ? (kind ?? "video") : "playlist",
+    videoId,
+    channel: null,
+    playlistId,
+    playlistIndex: playlistId && Number.isInteger(index) && index > 0 ? index : null,
+    startSeconds: videoId ? start : null,
+    host,
+  }
+}
+
+export function parseYoutubeInput(raw: string): ParsedYoutubeInput | null {
+  const input = raw.trim()
+  if (!input) return null
+
+  if (VIDEO_ID_PATTERN.test(input)) return { ...empty("video", null), videoId: input }
+  if (PLAYLIST_ID_PATTERN.test(input)) return { ...empty("playlist", null), playlistId: input }
+  if (CHANNEL_ID_PATTERN.test(input)) return { ...empty("channel", null), channel: { type: "id", value: input } }
+
+  const url = toUrl(input)
+  if (url) return parseUrl(url, url.hostname.toLowerCase())
+
+  // Not a URL, maybe a bare handle with or without the leading "@"
+  if (HANDLE_PATTERN.test(input)) {
+    return { ...empty("channel", null), channel: { type: "handle", value: input.startsWith("@") ? input : `@${input}` } }
+  }
+  return null
+}
@@ -0,0 +1,175 @@
+/*
+  YouTube playlist service.
+  - Resolves playlist metadata via playlists.list.
+  - Pages through playlistItems.list and hydrates entries into YoutubeVideo via the batched videos.list path.
+*/
+
+import { parseYoutubeInput } from "@/api/parse"
+import { fetchJSON, fetchJSONIfChanged, getVideosByIds, type YoutubeThumbnail, type YoutubeVideo } from "@/api/youtube"
+import { cachedFetch } from "@/api/cache"
+
+export type YoutubePlaylist = {
+  id: string
+  url: string
+  title: string
+  description: string
+  publishedAt: string
+  channelId: string
+  channelTitle: string
+  thumbnails: Record<string, YoutubeThumbnail>
+  itemCount?: number
+}
+
+// "deleted" and "private" come from the playlist entry itself; "unavailable" means videos.list returned nothing
+export type YoutubePlaylistItemStatus = "available" | "deleted" | "private" | "unavailable"
+
+export type YoutubePlaylistItem = {
+  id: string
+  position: number
+  videoId: string
+  addedAt: string
+  status: YoutubePlaylistItemStatus
+  video?: YoutubeVideo
+}
+
+export type YoutubePlaylistItemsPage = {
+  items: YoutubePlaylistItem[]
+  nextCursor: string | null
+  prevCursor: string | null
+  totalResults?: number
+}
+
+export type YoutubePlaylistPage = YoutubePlaylistItemsPage & {
+  playlist: YoutubePlaylist
+}
+
+export type PlaylistPageOptions = {
+  cursor?: string
+  limit?: number
+}
+
+// playlistItems.list returns at most 50 entries per page
+export const MAX_PLAYLIST_PAGE_SIZE = 50
+
+type PlaylistResource = {
+  id: string
+  snippet: {
+    publishedAt: string
+    channelId: string
+    title: string
+    description: string
+    thumbnails?: Record<string, YoutubeThumbnail>
+    channelTitle: string
+  }
+  contentDetails?: {
+    itemCount?: number
+  }
+}
+
+type PlaylistItemResource = {
+  id: string
+  snippet: {
+    publishedAt: string
+    title: string
+    position: number
+    resourceId: { videoId: string }
+    videoOwnerChannelId?: string
+  }
+  contentDetails?: {
+    videoId: string
+  }
+  status?: {
+    privacyStatus?: string
+  }
+}
+
+type PlaylistItemsResponse = {
+  items?: PlaylistItemResource[]
+  nextPageToken?: string
+  prevPageToken?: string
+  pageInfo?: { totalResults?: number }
+}
+
+function normalizePlaylist(item: PlaylistResource): YoutubePlaylist {
+  return {
+    id: item.id,
+    url: `https://www.youtube.com/playlist?list=${item.id}`,
+    title: item.snippet.title,
+    description: item.snippet.description,
+    publishedAt: item.snippet.publishedAt,
+    channelId: item.snippet.channelId,
+    channelTitle: item.snippet.channelTitle,
+    thumbnails: item.snippet.thumbnails || {},
+    itemCount: item.contentDetails?.itemCount,
+  }
+}
+
+export function getPlaylistById(playlistId: string): Promise<YoutubePlaylist | null> {
+  const parts = ["snippet", "contentDetails"].join(",")
+  return cachedFetch("playlist", playlistId, async (etag) => {
+    type PlaylistsResponse = { etag?: string; items?: PlaylistResource[] }
+    const result = await fetchJSONIfChanged<PlaylistsResponse>("playlists", { part: parts, id: playlistId }, etag)
+    if (result.notModified) return result
+    const item = result.value.items?.[0]
+    return { notModified: false, value: item ? normalizePlaylist(item) : null, etag: result.etag }
+  })
+}
+
+function classifyItem(item: PlaylistItemResource): YoutubePlaylistItemStatus {
+  // YouTube keeps placeholders for removed entries rather than dropping them from the list
+  if (item.status?.privacyStatus === "private" || item.snippet.title === "Private video") return "private"
+  if (item.snippet.title === "Deleted video" && !item.snippet.videoOwnerChannelId) return "deleted"
+  return "available"
+}
+
+export async function listPlaylistItems(playlistId: string, options: PlaylistPageOptions = {}): Promise<YoutubePlaylistItemsPage> {
+  const limit = Math.min(Math.max(options.limit ?? MAX_PLAYLIST_PAGE_SIZE, 1), MAX_PLAYLIST_PAGE_SIZE)
+  const parts = ["snippet", "contentDetails", "status"].join(",")
+  const data = await fetchJSON<PlaylistItemsResponse>("playlistItems", {
+    part: parts,
+    playlistId,
+    maxResults: limit,
+    pageToken: options.cursor,
+  })
+
+  const entries = (data.items ?? []).map((item) => ({
+    item,
+    videoId: item.contentDetails?.videoId ?? item.snippet.resourceId.videoId,
+    status: classifyItem(item),
+  }))
+
+  const videos = await getVideosByIds(entries.filter((e) => e.status === "available").map((e) => e.videoId))
+
+  const items: YoutubePlaylistItem[] = entries.map(({ item, videoId, status }) => {
+    const video = videos.get(videoId)
+    return {
+      id: item.id,
+      position: item.snippet.position,
+      videoId,
+      addedAt: item.snippet.publishedAt,
+      status: status === "available" && !video ? "unavailable" : status,
+      video,
+    }
+  })
+
+  return {
+    items,
+    nextCursor: data.nextPageToken ?? null,
+    prevCursor: data.prevPageToken ?? null,
+    totalResults: data.pageInfo?.totalResults,
+  }
+}
+
+export async function getPlaylistPage(playlistId: string, options: PlaylistPageOptions = {}): Promise<YoutubePlaylistPage | null> {
+  const playlist = await getPlaylistById(playlistId)
+  if (!playlist) return null
+
+  const page = await listPlaylistItems(playlistId, options)
+  return { playlist, ...page }
+}
+
+export async function getPlaylistByInput(input: string, options: PlaylistPageOptions = {}): Promise<YoutubePlaylistPage | null> {
+  const playlistId = parseYoutubeInput(input)?.playlistId
+  if (!playlistId) return null
+  return getPlaylistPage(playlistId, options)
+}
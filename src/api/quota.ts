@@ -0,0 +1,114 @@
+/*
+  YouTube Data API quota accounting.
+  - Every upstream call is charged its documented cost: 100 units for search.list, 1 for list calls.
+  - Usage is aggregated per quota day (Pacific time), per route, per API key and per resource.
+  - YOUTUBE_QUOTA_DAILY_BUDGET optionally caps the units this server may spend per day.
+*/
+
+import { ApiError } from "@/api/errors"
+import { getRequestContext } from "@/api/context"
+import { maskKey, nextQuotaReset, quotaDay } from "@/api/keys"
+
+export class QuotaBudgetExceededError extends ApiError {
+  constructor(
+    readonly cost: number,
+    readonly used: number,
+    readonly budget: number
+  ) {
+    super(
+      `Daily YouTube quota budget reached (${used} of ${budget} units used, this call needs ${cost}). ` +
+        `The budget resets at ${new Date(nextQuotaReset()).toISOString()}.`,
+      429,
+      "quota_budget_exceeded"
+    )
+    this.name = "QuotaBudgetExceededError"
+  }
+}
+
+// https://developers.google.com/youtube/v3/determine_quota_cost
+const QUOTA_COSTS: Record<string, number> = {
+  search: 100,
+}
+const DEFAULT_QUOTA_COST = 1
+
+// Older days are dropped so the ledger stays small on long-running instances
+const RETAINED_DAYS = 7
+
+export type QuotaDayUsage = {
+  day: string
+  units: number
+  calls: number
+  byRoute: Record<string, number>
+  byKey: Record<string, number>
+  byResource: Record<string, number>
+}
+
+const ledger = new Map<string, QuotaDayUsage>()
+
+export function quotaCost(resource: string): number {
+  return QUOTA_COSTS[resource] ?? DEFAULT_QUOTA_COST
+}
+
+export function getQuotaBudget(): number | null {
+  const budget = Number(process.env.YOUTUBE_QUOTA_DAILY_BUDGET)
+  return Number.isFinite(budget) && budget > 0 ? budget : null
+}
+
+function usageFor(day: string): QuotaDayUsage {
+  let usage = ledger.get(day)
+  if (!usage) {
+    usage = { day, units: 0, calls: 0, byRoute: {}, byKey: {}, byResource: {} }
+    ledger.set(day, usage)
+    for (const old of [...ledger.keys()].sort().slice(0, -RETAINED_DAYS)) ledger.delete(old)
+  }
+  return usage
+}
+
+// Throws QuotaBudgetExceededError when spending `cost` more units today would pass the budget
+export function assertWithinBudget(cost: number, now = Date.now()) {
+  const budget = getQuotaBudget()
+  if (budget === null) return
+  const used = ledger.get(quotaDay(now))?.units ?? 0
+  if (used + cost > budget) throw new QuotaBudgetExceededError(cost, used, budget)
+}
+
+// Google charges for every request it receives, so callers record each attempt, including failed ones
+export function recordQuotaUsage(resource: string, apiKey: string, now = Date.now()) {
+  const cost = quotaCost(resource)
+  const route = getRequestContext()?.route ?? "internal"
+  const key = maskKey(apiKey)
+  const usage = usageFor(quotaDay(now))
+  usage.units += cost
+  usage.calls++
+  usage.byRoute[route] = (usage.byRoute[route] ?? 0) + cost
+  usage.byKey[key] = (usage.byKey[key] ?? 0) + cost
+  usage.byResource[resource] = (usage.byResource[resource] ?? 0) + cost
+}
+
+// byKey is only reported to operators; it exposes masked keys and the size of the key pool
+export type QuotaDayReport = Omit<QuotaDayUsage, "byKey"> & { byKey?: Record<string, number> }
+
+export type QuotaReport = {
+  day: string
+  units: number
+  budget: number | null
+  remaining: number | null
+  resetsAt: string
+  days: QuotaDayReport[]
+}
+
+export function getQuotaReport(options: { includeKeys?: boolean } = {}, now = Date.now()): QuotaReport {
+  const day = quotaDay(now)
+  const units = ledger.get(day)?.units ?? 0
+  const budget = getQuotaBudget()
+  return {
+    day,
+    units,
+    budget,
+    remaining: budget === null ? null : Math.max(budget - units, 0),
+    resetsAt: new Date(nextQuotaReset(now)).toISOString(),
+    days: [...ledger.values()]
+      .sort((a, b) => b.day.localeCompare(a.day))
+      .map(({ byKey, ...usage }) => (options.includeKeys ? { ...usage, byKey } : usage)),
+  }
+}
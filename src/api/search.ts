@@ -0,0 +1,118 @@
+/*
+  YouTube search service.
+  - Proxies search.list with typed filters.
+  - Hydrates video hits into YoutubeVideo via the batched videos.list path so clients get one model.
+*/
+
+import { fetchJSON, getVideosByIds, type YoutubeThumbnail, type YoutubeVideo } from "@/api/youtube"
+
+export const SEARCH_TYPES = ["video", "channel", "playlist"] as const
+export const SEARCH_ORDERS = ["date", "rating", "relevance", "title", "videoCount", "viewCount"] as const
+export const SEARCH_DURATIONS = ["any", "short", "medium", "long"] as const
+export const SEARCH_DEFINITIONS = ["any", "high", "standard"] as const
+export const SEARCH_CAPTIONS = ["any", "closedCaption", "none"] as const
+export const SEARCH_SAFE_SEARCH = ["moderate", "none", "strict"] as const
+
+export type SearchType = (typeof SEARCH_TYPES)[number]
+
+export type YoutubeSearchOptions = {
+  query?: string
+  // search.list accepts several types at once; defaults to ["video"]
+  type?: SearchType[]
+  channelId?: string
+  publishedAfter?: string
+  publishedBefore?: string
+  // duration, definition and caption only apply to video-only searches
+  duration?: (typeof SEARCH_DURATIONS)[number]
+  definition?: (typeof SEARCH_DEFINITIONS)[number]
+  caption?: (typeof SEARCH_CAPTIONS)[number]
+  order?: (typeof SEARCH_ORDERS)[number]
+  regionCode?: string
+  relevanceLanguage?: string
+  safeSearch?: (typeof SEARCH_SAFE_SEARCH)[number]
+  cursor?: string
+  limit?: number
+}
+
+type SearchSnippet = {
+  publishedAt: string
+  channelId: string
+  title: string
+  description: string
+  thumbnails?: Record<string, YoutubeThumbnail>
+  channelTitle: string
+}
+
+export type YoutubeSearchResult =
+  // video is absent when videos.list no longer returns the hit (e.g. removed since indexing)
+  | { kind: "video"; id: string; video?: YoutubeVideo }
+  | ({ kind: "channel"; id: string } & SearchSnippet)
+  | ({ kind: "playlist"; id: string } & SearchSnippet)
+
+export type YoutubeSearchPage = {
+  results: YoutubeSearchResult[]
+  nextCursor: string | null
+  prevCursor: string | null
+  totalResults?: number
+  regionCode?: string
+}
+
+// search.list returns at most 50 results per page
+export const MAX_SEARCH_PAGE_SIZE = 50
+
+type SearchResource = {
+  id: { kind: string; videoId?: string; channelId?: string; playlistId?: string }
+  snippet: SearchSnippet
+}
+
+type SearchResponse = {
+  items?: SearchResource[]
+  nextPageToken?: string
+  prevPageToken?: string
+  regionCode?: string
+  pageInfo?: { totalResults?: number }
+}
+
+export async function searchYoutube(options: YoutubeSearchOptions): Promise<YoutubeSearchPage> {
+  const types = options.type?.length ? options.type : ["video"]
+  const limit = Math.min(Math.max(options.limit ?? 25, 1), MAX_SEARCH_PAGE_SIZE)
+
+  const data = await fetchJSON<SearchResponse>("search", {
+    part: "snippet",
+    q: options.query,
+    type: types.join(","),
+    channelId: options.channelId,
+    publishedAfter: options.publishedAfter,
+    publishedBefore: options.publishedBefore,
+    videoDuration: options.duration,
+    videoDefinition: options.definition,
+    videoCaption: options.caption,
+    order: options.order,
+    regionCode: options.regionCode,
+    relevanceLanguage: options.relevanceLanguage,
+    safeSearch: options.safeSearch,
+    maxResults: limit,
+    pageToken: options.cursor,
+  })
+
+  const items = data.items ?? []
+  const videoIds = items.map((item) => item.id.videoId).filter((id): id is string => Boolean(id))
+  const videos = await getVideosByIds(videoIds)
+
+  const results = items
+    .map((item): YoutubeSearchResult | null => {
+      if (item.id.videoId) return { kind: "video", id: item.id.videoId, video: videos.get(item.id.videoId) }
+      if (item.id.channelId) return { kind: "channel", id: item.id.channelId, ...item.snippet }
+      if (item.id.playlistId) return { kind: "playlist", id: item.id.playlistId, ...item.snippet }
+      return null
+    })
+    .filter((result): result is YoutubeSearchResult => result !== null)
+
+  return {
+    results,
+    nextCursor: data.nextPageToken ?? null,
+    prevCursor: data.prevPageToken ?? null,
+    totalResults: data.pageInfo?.totalResults,
+    regionCode: data.regionCode,
+  }
+}
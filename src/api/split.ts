@@ -0,0 +1,105 @@
+/*
+  Chapter splitting for /api/download?type=audio&split=chapters.
+  - The audio stream is downloaded once to a temporary file so every chapter can be cut with a seek,
+    instead of reading the stream from the start for each track. The file is removed when the archive
+    is finished or abandoned.
+  - Tracks are transcoded one at a time and streamed into a ZIP as they come out of ffmpeg; nothing
+    but the current chunk is held in memory.
+*/
+
+import { once } from "node:events"
+import { createWriteStream } from "node:fs"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { type Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import ytdl, { type videoFormat, type videoInfo } from "@distube/ytdl-core"
+import { ZipArchive } from "archiver"
+import ffmpeg from "fluent-ffmpeg"
+import { AUDIO_OUTPUTS, configureAudioOutput, type AudioOptions } from "@/api/audio"
+import { resolveChapters, type YoutubeChapter } from "@/api/chapters"
+import { InvalidRequestError } from "@/api/errors"
+import type { DownloadMode } from "@/api/formats"
+import { applyTags, getMediaTags, tagCommand, type MediaTags } from "@/api/tags"
+
+export type SplitMode = "chapters"
+
+// Reads split; returns null for a single-file download and throws InvalidRequestError for unsupported combinations
+export function parseSplit(params: URLSearchParams, mode: DownloadMode): SplitMode | null {
+  const value = params.get("split")?.trim().toLowerCase()
+  if (!value) return null
+  if (value !== "chapters") throw new InvalidRequestError("split must be chapters")
+  if (mode !== "audio") throw new InvalidRequestError("split applies to type=audio only")
+  if (["chapter", "start", "end"].some((name) => params.get(name)?.trim())) {
+    throw new InvalidRequestError("split cannot be combined with chapter, start or end")
+  }
+  return value
+}
+
+// Player chapters, else description timestamps; throws InvalidRequestError when there are none
+export function splitChapters(info: videoInfo): YoutubeChapter[] {
+  const { chapters } = resolveChapters(info)
+  if (!chapters.length) throw new InvalidRequestError("This video has no chapters to split by")
+  return chapters
+}
+
+// "03 - Chapter title.mp3"; ZIP entry names cannot carry path separators
+function trackFilename(number: number, total: number, title: string, extension: string) {
+  const safe = title.replace(/[\\/:*?"<>|\u0000-\u001F\u007F]+/g, " ").replace(/\s+/g, " ").trim() || `Track ${number}`
+  return `${String(number).padStart(Math.max(2, String(total).length), "0")} - ${safe}.${extension}`
+}
+
+function trackTags(album: MediaTags, chapter: YoutubeChapter, number: number, total: number): MediaTags {
+  return { ...album, title: chapter.title, album: album.title, track: { number, total }, chapters: [] }
+}
+
+// Returns the ZIP stream; destroying it stops the download or the ffmpeg run in progress
+export function streamChapterZip(info: videoInfo, format: videoFormat, options: AudioOptions, chapters: YoutubeChapter[]): Readable {
+  const output = AUDIO_OUTPUTS[options.format]
+  // Audio is already compressed, and deflating WAV is not worth holding up the stream for
+  const archive = new ZipArchive({ store: true })
+  const abort = new AbortController()
+  let current: Readable | null = null
+  archive.on("close", () => {
+    abort.abort()
+    current?.destroy()
+  })
+
+  async function run() {
+    const dir = await mkdtemp(join(tmpdir(), "mediapyi-split-"))
+    try {
+      const source = join(dir, "source")
+      const [album] = await Promise.all([
+        getMediaTags(info, null, output.muxer),
+        pipeline(ytdl.downloadFromInfo(info, { format }), createWriteStream(source), { signal: abort.signal }),
+      ])
+
+      for (const [i, chapter] of chapters.entries()) {
+        const tags = trackTags(album, chapter, i + 1, chapters.length)
+        const command = ffmpeg(source)
+          .setStartTime(chapter.start)
+          .duration(chapter.end - chapter.start)
+          .on("error", (err) => archive.destroy(err))
+        configureAudioOutput(command, options, format.audioCodec)
+        // Drop the source's container and stream metadata (a copied stream would keep its full DURATION)
+        command.outputOptions("-map_metadata", "-1", "-map_metadata:s:a", "-1")
+        tagCommand(command, output.muxer, tags)
+        const track = applyTags(command.pipe(), output.muxer, tags)
+        current = track
+
+        archive.append(track, { name: trackFilename(i + 1, chapters.length, chapter.title, output.extension) })
+        await once(archive, "entry", { signal: abort.signal })
+      }
+      await archive.finalize()
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  run().catch((err: unknown) => {
+    // An abort means the client went away and the archive is already destroyed
+    if (!abort.signal.aborted) archive.destroy(err instanceof Error ? err : new Error(String(err)))
+  })
+  return archive
+}
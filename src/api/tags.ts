@@ -0,0 +1,125 @@
+/*
+  Metadata written into downloads: title, artist (the channel), release date, the source URL as a
+  comment, chapters and the thumbnail as cover art.
+  - MP3 and MP4/M4A tags are built here and spliced into ffmpeg's streamed output (id3.ts, mp4.ts);
+    other containers get text tags from ffmpeg itself, without chapters or cover art.
+  - Cover art is best effort: a thumbnail that cannot be fetched leaves the download without one.
+*/
+
+import { pipeline, type Readable } from "node:stream"
+import type { videoInfo } from "@distube/ytdl-core"
+import type { FfmpegCommand } from "fluent-ffmpeg"
+import { resolveChapters, type YoutubeChapter } from "@/api/chapters"
+import type { Clip } from "@/api/clip"
+import { fetchWithRetry } from "@/api/http"
+import { id3Tagger } from "@/api/id3"
+import { mp4Tagger } from "@/api/mp4"
+
+export type CoverArt = {
+  data: Buffer
+  mimeType: "image/jpeg" | "image/png"
+}
+
+export type MediaTags = {
+  title: string
+  artist: string
+  date?: string // YYYY-MM-DD
+  comment: string // source URL
+  // Set on the tracks of a split download: the video title and the track's position
+  album?: string
+  track?: { number: number; total: number }
+  // Relative to the start of the output, so a clip carries the chapters it overlaps
+  chapters: YoutubeChapter[]
+  cover?: CoverArt
+}
+
+// ffmpeg muxers whose tags are written here rather than by ffmpeg
+const MP4_MUXERS = new Set(["mp4", "ipod"])
+const COVER_TIMEOUT_MS = 5_000
+const MAX_COVER_BYTES = 2 * 1024 * 1024
+
+// Auto-generated music channels are named "Artist - Topic"
+function artistName(info: videoInfo) {
+  const name = info.videoDetails.author?.name ?? info.videoDetails.ownerChannelName ?? ""
+  return name.replace(/\s+-\s+Topic$/, "")
+}
+
+function clipChapters(chapters: YoutubeChapter[], clip: Clip | null): YoutubeChapter[] {
+  if (!clip) return chapters
+  const end = clip.end ?? Infinity
+  const inside = chapters
+    .filter((c) => c.end > clip.start && c.start < end)
+    .map((c) => ({ title: c.title, start: Math.max(c.start, clip.start) - clip.start, end: Math.min(c.end, end) - clip.start }))
+  // A clip inside a single chapter has no chapters of its own
+  return inside.length > 1 ? inside : []
+}
+
+// Largest JPEG/PNG thumbnail (ID3 and MP4 cannot carry WebP), else the one every video has
+function coverUrl(info: videoInfo) {
+  const [best] = (info.videoDetails.thumbnails ?? [])
+    .filter((t) => /\.(jpe?g|png)(\?|$)/i.test(t.url))
+    .sort((a, b) => b.width * b.height - a.width * a.height)
+  return best?.url ?? `https://i.ytimg.com/vi/${info.videoDetails.videoId}/hqdefault.jpg`
+}
+
+function imageType(data: Buffer): CoverArt["mimeType"] | null {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg"
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png"
+  return null
+}
+
+async function fetchCoverArt(info: videoInfo): Promise<CoverArt | undefined> {
+  try {
+    const res = await fetchWithRetry(coverUrl(info), { timeoutMs: COVER_TIMEOUT_MS, retries: 1 })
+    if (!res.ok) {
+      await res.body?.cancel().catch(() => {})
+      return undefined
+    }
+    const data = Buffer.from(await res.arrayBuffer())
+    const mimeType = imageType(data)
+    return mimeType && data.length <= MAX_COVER_BYTES ? { data, mimeType } : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Tags for a download through `muxer`; the cover is only fetched for containers that embed it
+export async function getMediaTags(info: videoInfo, clip: Clip | null, muxer: string): Promise<MediaTags> {
+  const details = info.videoDetails
+  // publishDate is "2024-01-02" or a local timestamp; the calendar date is what matters
+  const date = (details.publishDate || details.uploadDate || "").match(/^\d{4}-\d{2}-\d{2}/)?.[0]
+  return {
+    title: clip ? `${details.title} - ${clip.label}` : details.title,
+    artist: artistName(info),
+    date,
+    comment: `https://www.youtube.com/watch?v=${details.videoId}`,
+    chapters: clipChapters(resolveChapters(info).chapters, clip),
+    cover: muxer === "mp3" || MP4_MUXERS.has(muxer) ? await fetchCoverArt(info) : undefined,
+  }
+}
+
+// ffmpeg output options: text tags for the containers ffmpeg tags, and no ID3 of its own for MP3
+export function taggingArgs(muxer: string, tags: MediaTags): string[] {
+  if (muxer === "mp3") return ["-id3v2_version", "0"]
+  if (MP4_MUXERS.has(muxer)) return []
+  const { title, artist, album, date, comment } = tags
+  const track = tags.track && `${tags.track.number}/${tags.track.total}`
+  return Object.entries({ title, artist, album, track, date, comment }).flatMap(([key, value]) => (value ? ["-metadata", `${key}=${value}`] : []))
+}
+
+export function tagCommand(command: FfmpegCommand, muxer: string, tags: MediaTags) {
+  const args = taggingArgs(muxer, tags)
+  // Separate arguments, so fluent-ffmpeg does not split values on spaces
+  if (args.length) command.outputOptions(...args)
+  return command
+}
+
+// Wraps ffmpeg's output for MP3 and MP4, whose tags are written here; MP4 must be fragmented with
+// default_base_moof. Destroying the result also destroys `stream`.
+export function applyTags(stream: Readable, muxer: string, tags: MediaTags): Readable {
+  const tagger = muxer === "mp3" ? id3Tagger(tags) : MP4_MUXERS.has(muxer) ? mp4Tagger(tags) : null
+  if (!tagger) return stream
+  return pipeline(stream, tagger, () => {
+    // Errors reach the consumer through the tagger
+  })
+}
@@ -1,15 +1,37 @@
 /*
   YouTube Data API service utilities.
   - Separates API logic from the Next.js route and UI.
-  - Uses process.env.YOUTUBE_DATA_API_KEY at runtime.
+  - Uses process.env.YOUTUBE_DATA_API_KEY at runtime (one key or a comma-separated pool, see keys.ts).
 */
 
+import { parseYoutubeInput, type ParsedYoutubeInput } from "@/api/parse"
+import { deriveVideoMetrics, formatDuration, parseIsoDuration, type YoutubeVideoMetrics } from "@/api/metrics"
+import { DEFAULT_REGION_CODE, getVideoCategories } from "@/api/categories"
+import { parseDescriptionChapters, type ChapterSource, type YoutubeChapter } from "@/api/chapters"
+import { analyzeDescription, type DescriptionEntities } from "@/api/description"
+import { ApiError, ConfigurationError, InvalidRequestError, isKeyError, parseYoutubeError, QuotaExceededError, type YoutubeApiError } from "@/api/errors"
+import { getKeyRotation, markKeyExhausted, nextKeyAvailableAt, recordKeyFailure, recordKeyUse } from "@/api/keys"
+import { assertWithinBudget, QuotaBudgetExceededError, quotaCost, recordQuotaUsage } from "@/api/quota"
+import { getRequestContext } from "@/api/context"
+import { fetchWithRetry } from "@/api/http"
+import { getVideoFromPlayer } from "@/api/ytdl"
+import { getCacheBackend, getCacheTtl, recordCacheLookup, type CacheEntry, type Revalidation } from "@/api/cache"
+
 export type YoutubeThumbnail = {
   url: string
   width?: number
   height?: number
 }
 
+export type YoutubeLiveState = "upcoming" | "live" | "completed"
+
+export type YoutubeVideoSource = {
+  // "ytdl-core" is the key-free fallback used when the Data API has no usable key or quota
+  provider: "youtube-data-api" | "ytdl-core"
+  // Dotted paths the provider could not fill; always empty for the Data API
+  missing: string[]
+}
+
 export type YoutubeVideo = {
   id: string
   url: string
@@ -19,13 +41,88 @@ export type YoutubeVideo = {
   channelId: string
   channelTitle: string
   thumbnails: Record<string, YoutubeThumbnail>
+  categoryId?: string
+  // Category name localized for the requested region/hl
+  category?: {
+    id: string
+    title: string
+  }
+  defaultLanguage?: string
+  defaultAudioLanguage?: string
+  // Set when title/description were replaced by the localization for the requested hl
+  localizedLanguage?: string
   duration: string
+  durationSeconds?: number
+  durationText?: string
+  chapters?: YoutubeChapter[]
+  chaptersSource?: ChapterSource
+  // Links, hashtags, mentions and timestamps found in `description`
+  descriptionEntities?: DescriptionEntities
   tags?: string[]
   statistics?: {
     viewCount?: number
     likeCount?: number
     commentCount?: number
   }
+  metrics?: YoutubeVideoMetrics
+  contentDetails?: {
+    dimension?: string // "2d" | "3d"
+    definition?: string // "hd" | "sd"
+    caption?: boolean
+    licensedContent?: boolean
+    projection?: string // "rectangular" | "360"
+    regionRestriction?: {
+      allowed?: string[]
+      blocked?: string[]
+    }
+    contentRating?: Record<string, string | string[]>
+  }
+  status?: {
+    uploadStatus?: string
+    privacyStatus?: string // "public" | "unlisted" | "private"
+    license?: string // "youtube" | "creativeCommon"
+    embeddable?: boolean
+    publicStatsViewable?: boolean
+    madeForKids?: boolean
+    publishAt?: string
+  }
+  topicDetails?: {
+    topicIds?: string[]
+    relevantTopicIds?: string[]
+    topicCategories?: string[] // Wikipedia URLs
+  }
+  recordingDetails?: {
+    recordingDate?: string
+    locationDescription?: string
+    location?: {
+      latitude?: number
+      longitude?: number
+      altitude?: number
+    }
+  }
+  player?: {
+    embedHtml?: string
+    embedWidth?: number
+    embedHeight?: number
+  }
+  liveStreamingDetails?: {
+    actualStartTime?: string
+    actualEndTime?: string
+    scheduledStartTime?: string
+    scheduledEndTime?: string
+    concurrentViewers?: number
+    activeLiveChatId?: string
+  }
+  localizations?: Record<string, { title: string; description: string }>
+  // Only set for broadcasts and premieres; regular uploads have no live state
+  live?: {
+    state: YoutubeLiveState
+    scheduledStartTime?: string
+    scheduledEndTime?: string
+    actualStartTime?: string
+    actualEndTime?: string
+    concurrentViewers?: number
+  }
   channel?: {
     id: string
     title: string
@@ -34,154 +131,568 @@ export type YoutubeVideo = {
     subscriberCount?: number
     videoCount?: number
   }
+  source?: YoutubeVideoSource
 }
 
 const YT_API_BASE = "https://www.googleapis.com/youtube/v3"
 
-export function extractVideoId(input: string): string | null {
-  try {
-    // If already an 11-char YouTube ID pattern, accept as-is
-    if (/^[a-zA-Z0-9_-]{11}$/.test(input)) return input
+export const VIDEO_PARTS = [
+  "snippet",
+  "contentDetails",
+  "statistics",
+  "status",
+  "topicDetails",
+  "recordingDetails",
+  "player",
+  "liveStreamingDetails",
+  "localizations",
+] as const
 
-    const url = new URL(input)
-    const host = url.hostname.replace(/^www\./, "")
+export type VideoPart = (typeof VIDEO_PARTS)[number]
 
-    if (host === "youtube.com" || host === "m.youtube.com" || host === "music.youtube.com") {
-      // https://www.youtube.com/watch?v=VIDEOID
-      const v = url.searchParams.get("v")
-      if (v) return v
+// snippet and contentDetails back the required YoutubeVideo fields, and liveStreamingDetails the
+// live state; parts do not change the quota cost of videos.list, so these are always requested
+const REQUIRED_VIDEO_PARTS: VideoPart[] = ["snippet", "contentDetails", "liveStreamingDetails"]
+export const DEFAULT_VIDEO_PARTS: VideoPart[] = [...REQUIRED_VIDEO_PARTS, "statistics"]
 
-      // Shorts: https://www.youtube.com/shorts/VIDEOID
-      const parts = url.pathname.split("/").filter(Boolean)
-      const idx = parts.indexOf("shorts")
-      if (idx !== -1 && parts[idx + 1]) return parts[idx + 1]
+export type VideoQueryOptions = {
+  parts?: VideoPart[]
+  // Region used to resolve category names (and the chart for trending); defaults to US
+  regionCode?: string
+  // Language for localized titles, descriptions and category names, e.g. "de" or "pt-BR"
+  hl?: string
+}
 
-      // Embed: https://www.youtube.com/embed/VIDEOID
-      const embedIdx = parts.indexOf("embed")
-      if (embedIdx !== -1 && parts[embedIdx + 1]) return parts[embedIdx + 1]
-    }
+// Throws InvalidRequestError for values YouTube would reject
+export function parseRegionCode(value: string | undefined | null): string | undefined {
+  if (value === undefined || value === null || value.trim() === "") return undefined
+  const code = value.trim().toUpperCase()
+  if (!/^[A-Z]{2}$/.test(code)) throw new InvalidRequestError("regionCode must be an ISO 3166-1 alpha-2 country code, e.g. US")
+  return code
+}
 
-    if (host === "youtu.be") {
-      // https://youtu.be/VIDEOID
-      const parts = url.pathname.split("/").filter(Boolean)
-      if (parts[0]) return parts[0]
-    }
+export function parseLanguage(value: string | undefined | null): string | undefined {
+  if (value === undefined || value === null || value.trim() === "") return undefined
+  const hl = value.trim()
+  if (!/^[a-zA-Z]{2,3}([-_][a-zA-Z0-9]{2,8})*$/.test(hl)) throw new InvalidRequestError("hl must be a BCP-47 language tag, e.g. en or pt-BR")
+  return hl
+}
+
+// Accepts "status,player", an array of part names, or "all"; throws InvalidRequestError on unknown parts
+export function parseVideoParts(value: string | string[] | undefined | null): VideoPart[] {
+  if (value === undefined || value === null || value === "") return DEFAULT_VIDEO_PARTS
+  const requested = (Array.isArray(value) ? value : value.split(",")).map((p) => p.trim()).filter(Boolean)
+  if (requested.includes("all")) return [...VIDEO_PARTS]
 
-    return null
-  } catch {
-    // Not a URL, maybe it's an ID-like string
-    return /^[a-zA-Z0-9_-]{11}$/.test(input) ? input : null
+  const unknown = requested.filter((p) => !VIDEO_PARTS.includes(p as VideoPart))
+  if (unknown.length) {
+    throw new InvalidRequestError(`Unknown parts: ${unknown.join(", ")} (allowed: ${VIDEO_PARTS.join(", ")}, all)`)
   }
+  return [...new Set([...REQUIRED_VIDEO_PARTS, ...(requested as VideoPart[])])]
 }
 
-async function fetchJSON<T>(url: string): Promise<T> {
-  const res = await fetch(url, { cache: "no-store" })
-  if (!res.ok) {
-    throw new Error(`YouTube API error: ${res.status} ${res.statusText}`)
+// Shared by fetchJSON and fetchJSONIfChanged; resolves with a 2xx or 304 response.
+// Query params are appended in order; undefined values are skipped so callers can pass optional filters inline.
+// Non-2xx responses throw a YoutubeApiError subclass chosen from Google's error reason. A key that is out
+// of quota is put on cooldown and the call is retried on the next healthy key in the pool. Each attempt is
+// refused up front when it would pass the configured daily budget, and charged to the quota ledger once
+// Google answers (with any status); attempts that never reach Google cost nothing.
+// Transient failures are retried (see fetchWithRetry) and the client's disconnect cancels the call.
+async function requestYoutube(
+  resource: string,
+  params: Record<string, string | number | undefined>,
+  headers?: HeadersInit
+): Promise<Response> {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) search.set(key, String(value))
+  }
+
+  let quotaError: YoutubeApiError | null = null
+  for (const apiKey of getKeyRotation()) {
+    search.set("key", apiKey)
+    const res = await fetchWithRetry(`${YT_API_BASE}/${resource}?${search.toString()}`, {
+      headers,
+      signal: getRequestContext()?.signal,
+      beforeAttempt: () => assertWithinBudget(quotaCost(resource)),
+      onResponse: () => {
+        recordKeyUse(apiKey)
+        recordQuotaUsage(resource, apiKey)
+      },
+    })
+    if (res.ok || res.status === 304) return res
+
+    const err = parseYoutubeError(res.status, res.statusText, await res.text().catch(() => ""))
+    if (!(err instanceof QuotaExceededError)) {
+      // Only key problems count against the key; not-found and bad-request errors are the caller's
+      if (isKeyError(err)) recordKeyFailure(apiKey, err)
+      throw err
+    }
+    markKeyExhausted(apiKey, err)
+    quotaError = err
   }
+
+  if (quotaError) throw quotaError
+  const resetAt = nextKeyAvailableAt()
+  throw new QuotaExceededError(
+    `All YouTube API keys are out of quota${resetAt ? ` until ${new Date(resetAt).toISOString()}` : ""}`,
+    "quotaExceeded",
+    403
+  )
+}
+
+export async function fetchJSON<T>(resource: string, params: Record<string, string | number | undefined>): Promise<T> {
+  const res = await requestYoutube(resource, params)
   return (await res.json()) as T
 }
 
-export async function getVideoById(videoId: string): Promise<YoutubeVideo | null> {
-  const apiKey = process.env.YOUTUBE_DATA_API_KEY
-  if (!apiKey) {
-    throw new Error("Missing YOUTUBE_DATA_API_KEY in environment")
+// Conditional variant for cache revalidation: sends If-None-Match when an etag is given and reports a
+// 304 as notModified. The etag returned is the one from the response body, which every list call has.
+export async function fetchJSONIfChanged<T extends { etag?: string }>(
+  resource: string,
+  params: Record<string, string | number | undefined>,
+  etag?: string
+): Promise<Revalidation<T>> {
+  const res = await requestYoutube(resource, params, etag ? { "If-None-Match": etag } : undefined)
+  if (res.status === 304) return { notModified: true }
+  const value = (await res.json()) as T
+  return { notModified: false, value, etag: value.etag ?? res.headers.get("etag") ?? undefined }
+}
+
+// videos.list and channels.list accept at most 50 comma-separated IDs per call
+const MAX_IDS_PER_REQUEST = 50
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size))
+  return out
+}
+
+function toNumber(value?: string): number | undefined {
+  return value ? Number(value) : undefined
+}
+
+type VideoResource = {
+  id: string
+  snippet: {
+    publishedAt: string
+    channelId: string
+    title: string
+    description: string
+    thumbnails: Record<string, YoutubeThumbnail>
+    tags?: string[]
+    channelTitle: string
+    categoryId?: string
+    liveBroadcastContent?: string // "none" | "upcoming" | "live"
+    defaultLanguage?: string
+    defaultAudioLanguage?: string
+    // Present when hl is passed; falls back to the default language when no localization exists
+    localized?: { title: string; description: string }
+  }
+  contentDetails: {
+    duration: string // ISO 8601
+    dimension?: string
+    definition?: string
+    caption?: string // "true" | "false"
+    licensedContent?: boolean
+    projection?: string
+    regionRestriction?: { allowed?: string[]; blocked?: string[] }
+    contentRating?: Record<string, string | string[]>
+  }
+  statistics?: {
+    viewCount?: string
+    likeCount?: string
+    commentCount?: string
+  }
+  status?: YoutubeVideo["status"]
+  topicDetails?: YoutubeVideo["topicDetails"]
+  recordingDetails?: YoutubeVideo["recordingDetails"]
+  player?: {
+    embedHtml?: string
+    embedWidth?: string
+    embedHeight?: string
+  }
+  liveStreamingDetails?: Omit<NonNullable<YoutubeVideo["liveStreamingDetails"]>, "concurrentViewers"> & {
+    concurrentViewers?: string
+  }
+  localizations?: YoutubeVideo["localizations"]
+}
+
+type ChannelResource = {
+  id: string
+  snippet: {
+    title: string
+    description?: string
+    thumbnails?: Record<string, YoutubeThumbnail>
+  }
+  statistics?: {
+    subscriberCount?: string
+    videoCount?: string
   }
+}
 
-  // videos.list for details
-  const parts = ["snippet", "contentDetails", "statistics"].join(",")
-  const url = `${YT_API_BASE}/videos?part=${parts}&id=${encodeURIComponent(videoId)}&key=${apiKey}`
+function deriveLive(item: VideoResource): YoutubeVideo["live"] {
+  const details = item.liveStreamingDetails
+  let state: YoutubeLiveState
+  if (item.snippet.liveBroadcastContent === "live") state = "live"
+  else if (item.snippet.liveBroadcastContent === "upcoming") state = "upcoming"
+  else if (details) state = "completed"
+  else return undefined
 
-  type VideosResponse = {
-    items: Array<{
-      id: string
-      snippet: {
-        publishedAt: string
-        channelId: string
-        title: string
-        description: string
-        thumbnails: Record<string, YoutubeThumbnail>
-        tags?: string[]
-        channelTitle: string
-      }
-      contentDetails: {
-        duration: string // ISO 8601
-      }
-      statistics?: {
-        viewCount?: string
-        likeCount?: string
-        commentCount?: string
-      }
-    }>
+  return {
+    state,
+    scheduledStartTime: details?.scheduledStartTime,
+    scheduledEndTime: details?.scheduledEndTime,
+    actualStartTime: details?.actualStartTime,
+    actualEndTime: details?.actualEndTime,
+    concurrentViewers: toNumber(details?.concurrentViewers),
   }
+}
 
-  const data = await fetchJSON<VideosResponse>(url)
-  const item = data.items?.[0]
-  if (!item) return null
+// Prefers an exact entry from the localizations part (then the base language), then snippet.localized
+function pickLocalization(item: VideoResource, hl: string) {
+  const localizations = item.localizations ?? {}
+  const base = hl.split(/[-_]/)[0]
+  const localized = localizations[hl] ?? localizations[base] ?? item.snippet.localized
+  if (!localized) return null
+  // snippet.localized silently falls back to the original text, which is not a localization
+  if (localized.title === item.snippet.title && localized.description === item.snippet.description) return null
+  return localized
+}
 
-  const base: YoutubeVideo = {
+function normalizeVideo(item: VideoResource, options: VideoQueryOptions = {}): YoutubeVideo {
+  const durationSeconds = parseIsoDuration(item.contentDetails.duration) ?? undefined
+  const localized = options.hl ? pickLocalization(item, options.hl) : null
+  const video: YoutubeVideo = {
     id: item.id,
     url: `https://www.youtube.com/watch?v=${item.id}`,
-    title: item.snippet.title,
-    description: item.snippet.description,
+    title: localized?.title ?? item.snippet.title,
+    description: localized?.description ?? item.snippet.description,
     publishedAt: item.snippet.publishedAt,
     channelId: item.snippet.channelId,
     channelTitle: item.snippet.channelTitle,
     thumbnails: item.snippet.thumbnails || {},
+    categoryId: item.snippet.categoryId,
+    defaultLanguage: item.snippet.defaultLanguage,
+    defaultAudioLanguage: item.snippet.defaultAudioLanguage,
+    localizedLanguage: localized ? options.hl : undefined,
     duration: item.contentDetails.duration,
+    durationSeconds,
+    durationText: durationSeconds !== undefined ? formatDuration(durationSeconds) : undefined,
     tags: item.snippet.tags,
     statistics: item.statistics
       ? {
-          viewCount: item.statistics.viewCount ? Number(item.statistics.viewCount) : undefined,
-          likeCount: item.statistics.likeCount ? Number(item.statistics.likeCount) : undefined,
-          commentCount: item.statistics.commentCount ? Number(item.statistics.commentCount) : undefined,
+          viewCount: toNumber(item.statistics.viewCount),
+          likeCount: toNumber(item.statistics.likeCount),
+          commentCount: toNumber(item.statistics.commentCount),
+        }
+      : undefined,
+    contentDetails: {
+      dimension: item.contentDetails.dimension,
+      definition: item.contentDetails.definition,
+      caption: item.contentDetails.caption ? item.contentDetails.caption === "true" : undefined,
+      licensedContent: item.contentDetails.licensedContent,
+      projection: item.contentDetails.projection,
+      regionRestriction: item.contentDetails.regionRestriction,
+      contentRating: item.contentDetails.contentRating,
+    },
+    status: item.status,
+    topicDetails: item.topicDetails,
+    recordingDetails: item.recordingDetails,
+    player: item.player
+      ? {
+          embedHtml: item.player.embedHtml,
+          embedWidth: toNumber(item.player.embedWidth),
+          embedHeight: toNumber(item.player.embedHeight),
         }
       : undefined,
+    liveStreamingDetails: item.liveStreamingDetails
+      ? { ...item.liveStreamingDetails, concurrentViewers: toNumber(item.liveStreamingDetails.concurrentViewers) }
+      : undefined,
+    localizations: item.localizations,
+    live: deriveLive(item),
+    source: { provider: "youtube-data-api", missing: [] },
+  }
+  video.metrics = deriveVideoMetrics(video)
+  // Chapters come from the original description; localized descriptions rarely repeat the timestamps
+  const chapters = parseDescriptionChapters(item.snippet.description, durationSeconds)
+  if (chapters.length) {
+    video.chapters = chapters
+    video.chaptersSource = "description"
   }
+  // Analyzed on the returned (possibly localized) text so the entity offsets line up with it
+  video.descriptionEntities = analyzeDescription(video.description, durationSeconds)
+  return video
+}
 
-  // Enrich with channel info
-  try {
-    const channel = await getChannelById(base.channelId, apiKey)
-    if (channel) base.channel = channel
-  } catch {
-    // Non-fatal
+function normalizeChannel(item: ChannelResource): NonNullable<YoutubeVideo["channel"]> {
+  return {
+    id: item.id,
+    title: item.snippet.title,
+    description: item.snippet.description,
+    thumbnails: item.snippet.thumbnails,
+    subscriberCount: toNumber(item.statistics?.subscriberCount),
+    videoCount: toNumber(item.statistics?.videoCount),
   }
+}
 
-  return base
+// Cached per channel ID under the channel TTL, so every video from a channel reuses one lookup;
+// the summary has its own key because /api/channel caches the full channel shape
+function channelCacheKey(channelId: string) {
+  return `channel:summary:${channelId}`
 }
 
-async function getChannelById(channelId: string, apiKey: string) {
+async function getChannelsByIds(channelIds: string[]) {
+  const channels = new Map<string, NonNullable<YoutubeVideo["channel"]>>()
   const parts = ["snippet", "statistics"].join(",")
-  const url = `${YT_API_BASE}/channels?part=${parts}&id=${encodeURIComponent(channelId)}&key=${apiKey}`
-  type ChannelsResponse = {
-    items: Array<{
-      id: string
-      snippet: {
-        title: string
-        description?: string
-        thumbnails?: Record<string, YoutubeThumbnail>
+  const cache = getCacheBackend()
+  const ttl = getCacheTtl("channel")
+
+  const missing: string[] = []
+  for (const id of channelIds) {
+    const entry = cache && ttl ? await cache.get<NonNullable<YoutubeVideo["channel"]>>(channelCacheKey(id)) : undefined
+    if (entry && entry.expiresAt > Date.now()) {
+      recordCacheLookup("hit")
+      channels.set(id, entry.value)
+    } else missing.push(id)
+  }
+
+  for (const ids of chunk(missing, MAX_IDS_PER_REQUEST)) {
+    const data = await fetchJSON<{ items?: ChannelResource[] }>("channels", { part: parts, id: ids.join(",") })
+    for (const item of data.items ?? []) {
+      const channel = normalizeChannel(item)
+      channels.set(item.id, channel)
+      if (cache && ttl) {
+        recordCacheLookup("miss")
+        await cache.set(channelCacheKey(item.id), { value: channel, expiresAt: Date.now() + ttl })
       }
-      statistics?: {
-        subscriberCount?: string
-        videoCount?: string
+    }
+  }
+  return channels
+}
+
+type VideoLoadResult = {
+  found: Map<string, YoutubeVideo>
+  // Upstream failures keyed by video ID, so one bad chunk does not sink the whole batch
+  failed: Map<string, unknown>
+}
+
+// Enriches normalized videos with channel info and category names; both lookups are non-fatal
+async function enrichVideos(videos: YoutubeVideo[], options: VideoQueryOptions) {
+  // Look up each distinct channel once
+  const channelIds = [...new Set(videos.map((v) => v.channelId))]
+  if (channelIds.length) {
+    try {
+      const channels = await getChannelsByIds(channelIds)
+      for (const video of videos) {
+        const channel = channels.get(video.channelId)
+        if (channel) video.channel = channel
       }
-    }>
+    } catch {
+      // Non-fatal
+    }
   }
-  const data = await fetchJSON<ChannelsResponse>(url)
-  const item = data.items?.[0]
-  if (!item) return undefined
-  return {
-    id: item.id,
-    title: item.snippet.title,
-    description: item.snippet.description,
-    thumbnails: item.snippet.thumbnails,
-    subscriberCount: item.statistics?.subscriberCount ? Number(item.statistics.subscriberCount) : undefined,
-    videoCount: item.statistics?.videoCount ? Number(item.statistics.videoCount) : undefined,
+
+  if (videos.some((v) => v.categoryId)) {
+    try {
+      const categories = await getVideoCategories(options.regionCode ?? DEFAULT_REGION_CODE, options.hl)
+      for (const video of videos) {
+        const category = video.categoryId ? categories.get(video.categoryId) : undefined
+        if (category) video.category = { id: category.id, title: category.title }
+      }
+    } catch {
+      // Non-fatal
+    }
+  }
+}
+
+// Everything that changes the normalized video is part of the key
+function videoCacheKey(videoId: string, options: VideoQueryOptions) {
+  const parts = [...(options.parts ?? DEFAULT_VIDEO_PARTS)].sort().join(",")
+  return `video:${videoId}:${parts}:${options.hl ?? ""}:${options.regionCode ?? DEFAULT_REGION_CODE}`
+}
+
+async function loadVideos(videoIds: string[], options: VideoQueryOptions = {}): Promise<VideoLoadResult> {
+  const found = new Map<string, YoutubeVideo>()
+  const failed = new Map<string, unknown>()
+  const parts = (options.parts ?? DEFAULT_VIDEO_PARTS).join(",")
+  const cache = getCacheBackend()
+  const ttl = getCacheTtl("video")
+
+  // Fresh entries are served as-is; expired ones are remembered so single-video lookups can revalidate
+  const stale = new Map<string, CacheEntry<YoutubeVideo>>()
+  const missing: string[] = []
+  for (const id of new Set(videoIds)) {
+    const entry = cache && ttl ? await cache.get<YoutubeVideo>(videoCacheKey(id, options)) : undefined
+    if (entry && entry.expiresAt > Date.now()) {
+      recordCacheLookup("hit")
+      found.set(id, entry.value)
+    } else {
+      if (entry) stale.set(id, entry)
+      missing.push(id)
+    }
+  }
+
+  // An etag covers a whole response, so it can only be reused for a request with the same single ID
+  const chunks = chunk(missing, MAX_IDS_PER_REQUEST)
+  const settled = await Promise.allSettled(
+    chunks.map((ids) =>
+      fetchJSONIfChanged<{ etag?: string; items?: VideoResource[] }>(
+        "videos",
+        { part: parts, id: ids.join(","), hl: options.hl },
+        ids.length === 1 ? stale.get(ids[0])?.etag : undefined
+      )
+    )
+  )
+
+  const fetched: YoutubeVideo[] = []
+  const etags = new Map<string, string | undefined>()
+  for (const [i, outcome] of settled.entries()) {
+    const ids = chunks[i]
+    if (outcome.status === "rejected") {
+      for (const id of ids) failed.set(id, outcome.reason)
+      continue
+    }
+    if (outcome.value.notModified) {
+      const entry = stale.get(ids[0])
+      if (!entry) continue
+      recordCacheLookup("revalidated")
+      found.set(ids[0], entry.value)
+      if (cache) await cache.set(videoCacheKey(ids[0], options), { ...entry, expiresAt: Date.now() + ttl })
+      continue
+    }
+    for (const item of outcome.value.value.items ?? []) {
+      const video = normalizeVideo(item, options)
+      found.set(item.id, video)
+      fetched.push(video)
+      if (ids.length === 1) etags.set(item.id, outcome.value.etag)
+    }
   }
+
+  await enrichVideos(fetched, options)
+  if (cache && ttl) {
+    for (const video of fetched) {
+      recordCacheLookup("miss")
+      await cache.set(videoCacheKey(video.id, options), { value: video, etag: etags.get(video.id), expiresAt: Date.now() + ttl })
+    }
+  }
+  return { found, failed }
+}
+
+// The Data API cannot answer at all: no key configured, every key out of quota, or the local budget spent
+function isDataApiUnavailable(err: unknown) {
+  return err instanceof ConfigurationError || err instanceof QuotaExceededError || err instanceof QuotaBudgetExceededError
 }
 
-export async function getVideoByInput(input: string): Promise<YoutubeVideo | null> {
-  const id = extractVideoId(input)
+// Falls back to ytdl-core player info when the Data API is unavailable; check video.source for gaps
+export async function getVideoById(videoId: string, options: VideoQueryOptions = {}): Promise<YoutubeVideo | null> {
+  try {
+    const { found, failed } = await loadVideos([videoId], options)
+    if (failed.has(videoId)) throw failed.get(videoId)
+    return found.get(videoId) ?? null
+  } catch (err: unknown) {
+    if (!isDataApiUnavailable(err)) throw err
+    return getVideoFromPlayer(videoId)
+  }
+}
+
+// Resolves videos in chunks of MAX_IDS_PER_REQUEST; throws if any chunk fails upstream
+export async function getVideosByIds(videoIds: string[], options: VideoQueryOptions = {}): Promise<Map<string, YoutubeVideo>> {
+  const { found, failed } = await loadVideos(videoIds, options)
+  const [firstFailure] = failed.values()
+  if (firstFailure) throw firstFailure
+  return found
+}
+
+export async function getVideoByInput(input: string, options: VideoQueryOptions = {}): Promise<YoutubeVideo | null> {
+  const id = parseYoutubeInput(input)?.videoId
   if (!id) return null
-  return getVideoById(id)
+  return getVideoById(id, options)
+}
+
+export type YoutubeBatchResult = {
+  input: string
+  videoId: string | null
+  parsed: ParsedYoutubeInput | null
+  video?: YoutubeVideo
+  error?: string
+  // Same codes as the route error envelope, e.g. "unresolvable_input", "not_found", "quota_exceeded"
+  code?: string
+}
+
+export async function getVideosByInputs(inputs: string[], options: VideoQueryOptions = {}): Promise<YoutubeBatchResult[]> {
+  const parsedInputs = inputs.map((input) => parseYoutubeInput(input))
+  const ids = parsedInputs.map((parsed) => parsed?.videoId ?? null)
+  const { found, failed } = await loadVideos(ids.filter((id): id is string => id !== null), options)
+
+  return inputs.map((input, i) => {
+    const videoId = ids[i]
+    const parsed = parsedInputs[i]
+    if (!videoId) {
+      return { input, videoId, parsed, error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }
+    }
+
+    const video = found.get(videoId)
+    if (video) return { input, videoId, parsed, video }
+
+    const failure = failed.get(videoId)
+    if (failure) {
+      return {
+        input,
+        videoId,
+        parsed,
+        error: failure instanceof Error ? failure.message : "Upstream request failed",
+        code: failure instanceof ApiError ? failure.code : "upstream_error",
+      }
+    }
+    return { input, videoId, parsed, error: "Video not found", code: "not_found" }
+  })
+}
+
+export type TrendingOptions = VideoQueryOptions & {
+  categoryId?: string
+  cursor?: string
+  limit?: number
+}
+
+export type YoutubeTrendingPage = {
+  regionCode: string
+  categoryId: string | null
+  items: YoutubeVideo[]
+  nextCursor: string | null
+  prevCursor: string | null
+  totalResults: number | null
+}
+
+export const MAX_TRENDING_PAGE_SIZE = 50
+
+// videos.list with chart=mostPopular; YouTube rejects categories that have no chart in the region
+export async function getTrendingVideos(options: TrendingOptions = {}): Promise<YoutubeTrendingPage> {
+  const regionCode = options.regionCode ?? DEFAULT_REGION_CODE
+  const limit = Math.min(Math.max(options.limit ?? 25, 1), MAX_TRENDING_PAGE_SIZE)
+  const data = await fetchJSON<{
+    items?: VideoResource[]
+    nextPageToken?: string
+    prevPageToken?: string
+    pageInfo?: { totalResults?: number }
+  }>("videos", {
+    part: (options.parts ?? DEFAULT_VIDEO_PARTS).join(","),
+    chart: "mostPopular",
+    regionCode,
+    videoCategoryId: options.categoryId,
+    hl: options.hl,
+    maxResults: limit,
+    pageToken: options.cursor,
+  })
+
+  const items = (data.items ?? []).map((item) => normalizeVideo(item, { ...options, regionCode }))
+  await enrichVideos(items, { ...options, regionCode })
+  return {
+    regionCode,
+    categoryId: options.categoryId ?? null,
+    items,
+    nextCursor: data.nextPageToken ?? null,
+    prevCursor: data.prevPageToken ?? null,
+    totalResults: data.pageInfo?.totalResults ?? null,
+  }
 }
@@ -0,0 +1,178 @@
+/*
+  ytdl-core helpers shared by the download routes and the metadata fallback.
+  - Fetches player info and refuses content that cannot be downloaded as a finished file.
+  - Builds a best-effort YoutubeVideo from player info when the Data API cannot be used.
+*/
+
+import { getInfo, type thumbnail, type videoInfo } from "@distube/ytdl-core"
+import type { YoutubeLiveState, YoutubeThumbnail, YoutubeVideo } from "@/api/youtube"
+import { ApiError } from "@/api/errors"
+import { deriveVideoMetrics, formatDuration, toIsoDuration } from "@/api/metrics"
+import { resolveChapters } from "@/api/chapters"
+import { analyzeDescription } from "@/api/description"
+
+export class LiveContentError extends ApiError {
+  constructor(
+    readonly state: Exclude<YoutubeLiveState, "completed">,
+    readonly scheduledStartTime?: string
+  ) {
+    super(
+      state === "live"
+        ? "This video is a live stream in progress. It can be downloaded once the broadcast has ended and been processed."
+        : scheduledStartTime
+          ? `This live stream or premiere has not started yet (scheduled for ${scheduledStartTime}).`
+          : "This live stream or premiere has not started yet.",
+      409,
+      "live_content"
+    )
+    this.name = "LiveContentError"
+  }
+}
+
+export function getLiveState(info: videoInfo): YoutubeLiveState | null {
+  const details = info.videoDetails
+  const broadcast = details.liveBroadcastDetails
+  // isUpcoming is present on the raw player response but missing from ytdl-core's typings
+  const raw = info.player_response?.videoDetails as { isUpcoming?: boolean } | undefined
+
+  const startsLater = broadcast?.startTimestamp ? Date.parse(broadcast.startTimestamp) > Date.now() : false
+  if (raw?.isUpcoming || (broadcast && !broadcast.isLiveNow && !broadcast.endTimestamp && startsLater)) return "upcoming"
+  if (details.isLive || broadcast?.isLiveNow) return "live"
+  if (details.isLiveContent || broadcast?.endTimestamp) return "completed"
+  return null
+}
+
+// ytdl-core rejects offline streams (LIVE_STREAM_OFFLINE) with the player's reason text,
+// e.g. "This live event will begin in 3 hours." or "Premieres in 2 days"
+const OFFLINE_STREAM_PATTERN = /live stream is offline|live event will begin|premieres? (in|on)|scheduled for/i
+
+// getInfo for downloads: throws LiveContentError for live or upcoming content instead of letting
+// downloadFromInfo follow an endless HLS stream
+export async function getDownloadInfo(videoId: string): Promise<videoInfo> {
+  let info: videoInfo
+  try {
+    info = await getInfo(`https://www.youtube.com/watch?v=${videoId}`)
+  } catch (err: unknown) {
+    if (err instanceof Error && OFFLINE_STREAM_PATTERN.test(err.message)) throw new LiveContentError("upcoming")
+    throw err
+  }
+
+  const state = getLiveState(info)
+  if (state === "live" || state === "upcoming") {
+    throw new LiveContentError(state, info.videoDetails.liveBroadcastDetails?.startTimestamp)
+  }
+  return info
+}
+
+// Data API thumbnail keys by width, so fallback thumbnails line up with the usual names
+const THUMBNAIL_NAMES: Record<number, string> = { 120: "default", 320: "medium", 480: "high", 640: "standard", 1280: "maxres" }
+
+function toThumbnailMap(thumbnails: thumbnail[]): Record<string, YoutubeThumbnail> {
+  const map: Record<string, YoutubeThumbnail> = {}
+  for (const t of thumbnails) {
+    map[THUMBNAIL_NAMES[t.width] ?? `${t.width}x${t.height}`] = { url: t.url, width: t.width, height: t.height }
+  }
+  return map
+}
+
+// Fields a Data API response normally carries; whichever the player info leaves empty is reported as missing
+const FALLBACK_FIELDS = [
+  "description",
+  "publishedAt",
+  "tags",
+  "categoryId",
+  "category",
+  "defaultLanguage",
+  "defaultAudioLanguage",
+  "statistics.viewCount",
+  "statistics.likeCount",
+  "statistics.commentCount",
+  "contentDetails",
+  "status",
+  "topicDetails",
+  "recordingDetails",
+  "player",
+  "liveStreamingDetails",
+  "localizations",
+  "channel.description",
+  "channel.subscriberCount",
+  "channel.videoCount",
+]
+
+function isMissing(video: YoutubeVideo, path: string) {
+  let value: unknown = video
+  for (const key of path.split(".")) value = (value as Record<string, unknown> | undefined)?.[key]
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && !value.length)
+}
+
+export function videoFromPlayerInfo(info: videoInfo): YoutubeVideo {
+  const details = info.videoDetails
+  const durationSeconds = Number(details.lengthSeconds) || 0
+  const publishedAt = Date.parse(details.publishDate || details.uploadDate)
+  const state = getLiveState(info)
+  const broadcast = details.liveBroadcastDetails
+
+  const video: YoutubeVideo = {
+    id: details.videoId,
+    url: `https://www.youtube.com/watch?v=${details.videoId}`,
+    title: details.title,
+    description: details.description ?? "",
+    publishedAt: Number.isNaN(publishedAt) ? "" : new Date(publishedAt).toISOString(),
+    channelId: details.channelId,
+    channelTitle: details.author?.name ?? details.ownerChannelName,
+    thumbnails: toThumbnailMap(details.thumbnails ?? []),
+    duration: toIsoDuration(durationSeconds),
+    durationSeconds,
+    durationText: formatDuration(durationSeconds),
+    tags: details.keywords,
+    statistics: {
+      viewCount: details.viewCount ? Number(details.viewCount) : undefined,
+      likeCount: details.likes ?? undefined,
+    },
+    status: {
+      privacyStatus: details.isPrivate ? "private" : details.isUnlisted ? "unlisted" : "public",
+    },
+    player: details.embed
+      ? {
+          embedHtml: `<iframe width="${details.embed.width}" height="${details.embed.height}" src="${details.embed.iframeUrl}" frameborder="0" allowfullscreen></iframe>`,
+          embedWidth: details.embed.width,
+          embedHeight: details.embed.height,
+        }
+      : undefined,
+    live: state
+      ? {
+          state,
+          scheduledStartTime: state === "upcoming" ? broadcast?.startTimestamp : undefined,
+          actualStartTime: state !== "upcoming" ? broadcast?.startTimestamp : undefined,
+          actualEndTime: broadcast?.endTimestamp,
+        }
+      : undefined,
+    channel: details.author
+      ? {
+          id: details.author.id || details.channelId,
+          title: details.author.name,
+          thumbnails: details.author.thumbnails ? toThumbnailMap(details.author.thumbnails) : undefined,
+          subscriberCount: details.author.subscriber_count,
+        }
+      : undefined,
+  }
+  video.metrics = deriveVideoMetrics(video)
+  const { chapters, source } = resolveChapters(info)
+  if (source) {
+    video.chapters = chapters
+    video.chaptersSource = source
+  }
+  video.descriptionEntities = analyzeDescription(video.description, durationSeconds || undefined)
+  video.source = { provider: "ytdl-core", missing: FALLBACK_FIELDS.filter((path) => isMissing(video, path)) }
+  return video
+}
+
+// Key-free lookup used when the Data API is unavailable; null when YouTube reports the video as unavailable
+export async function getVideoFromPlayer(videoId: string): Promise<YoutubeVideo | null> {
+  try {
+    return videoFromPlayerInfo(await getInfo(`https://www.youtube.com/watch?v=${videoId}`))
+  } catch (err: unknown) {
+    if (err instanceof Error && /video unavailable|private video|been removed/i.test(err.message)) return null
+    throw err
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getAdminToken, hasAdminToken } from "@/api/admin"
+import { getKeyPoolStatus, nextQuotaReset } from "@/api/keys"
+import { toErrorResponse } from "@/api/errors"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+// Admin routes are for operators only, so unlike the public routes they send no CORS headers
+export async function GET(req: NextRequest) {
+  try {
+    const token = getAdminToken()
+    if (!token) {
+      return NextResponse.json({ error: "Admin endpoints are disabled (ADMIN_TOKEN is not set)", code: "not_configured" }, { status: 404 })
+    }
+    if (!hasAdminToken(req, token)) {
+      return NextResponse.json({ error: "Missing or invalid admin token", code: "unauthorized" }, { status: 401 })
+    }
+
+    const keys = getKeyPoolStatus()
+    return NextResponse.json(
+      {
+        total: keys.length,
+        healthy: keys.filter((k) => k.healthy).length,
+        nextQuotaReset: new Date(nextQuotaReset()).toISOString(),
+        keys,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return NextResponse.json(body, { status })
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  iterateCommentThreads,
+  listCommentThreads,
+  MAX_COMMENTS_PAGE_SIZE,
+  type CommentOrder,
+  type CommentRepliesMode,
+  type YoutubeComment,
+  type YoutubeCommentThread,
+} from "@/api/comments"
+import { parseYoutubeInput } from "@/api/parse"
+import { toErrorResponse } from "@/api/errors"
+import { bindRequestContext, withRequestContext } from "@/api/context"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const ORDERS: CommentOrder[] = ["time", "relevance"]
+const REPLIES_MODES: CommentRepliesMode[] = ["all", "preview", "none"]
+const FORMATS = ["json", "csv", "ndjson"] as const
+
+const CSV_COLUMNS = [
+  "id",
+  "parentId",
+  "videoId",
+  "authorDisplayName",
+  "authorChannelId",
+  "publishedAt",
+  "updatedAt",
+  "likeCount",
+  "totalReplyCount",
+  "text",
+] as const
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+function csvCell(value: string | number | undefined) {
+  const text = value === undefined ? "" : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvRow(comment: YoutubeComment, totalReplyCount?: number) {
+  const row = { ...comment, totalReplyCount }
+  return CSV_COLUMNS.map((column) => csvCell(row[column])).join(",") + "\r\n"
+}
+
+// Top-level comments are followed by their replies; replies carry parentId and an empty totalReplyCount
+function serializeThread(thread: YoutubeCommentThread, format: "csv" | "ndjson") {
+  if (format === "ndjson") return JSON.stringify(thread) + "\n"
+  return csvRow(thread.comment, thread.totalReplyCount) + thread.replies.map((reply) => csvRow(reply)).join("")
+}
+
+function streamExport(threads: AsyncGenerator<YoutubeCommentThread>, format: "csv" | "ndjson") {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === "csv") controller.enqueue(encoder.encode(CSV_COLUMNS.join(",") + "\r\n"))
+    },
+    // Later pages are fetched as the client reads, so keep their quota charged to this route
+    pull: bindRequestContext(async (controller: ReadableStreamDefaultController<Uint8Array>) => {
+      try {
+        const next = await threads.next()
+        if (next.done) controller.close()
+        else controller.enqueue(encoder.encode(serializeThread(next.value, format)))
+      } catch (err) {
+        controller.error(err)
+      }
+    }),
+    async cancel() {
+      await threads.return(undefined)
+    },
+  })
+}
+
+export const GET = withRequestContext(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const input = (
+      searchParams.get("input") ||
+      searchParams.get("url") ||
+      searchParams.get("id") ||
+      searchParams.get("videoId") ||
+      ""
+    )
+      .toString()
+      .trim()
+    const cursor = searchParams.get("cursor") || undefined
+    const search = searchParams.get("search")?.trim() || undefined
+    const order = (searchParams.get("order") || "time") as CommentOrder
+    const replies = (searchParams.get("replies") || "all") as CommentRepliesMode
+    const format = (searchParams.get("format") || "json") as (typeof FORMATS)[number]
+    const limitParam = searchParams.get("limit")
+    const limit = limitParam ? Number(limitParam) : undefined
+
+    if (!input) {
+      return jsonCORS({ error: "Missing input (YouTube URL or videoId)", code: "invalid_request" }, { status: 400 })
+    }
+    if (!ORDERS.includes(order)) {
+      return jsonCORS({ error: `order must be one of: ${ORDERS.join(", ")}`, code: "invalid_request" }, { status: 400 })
+    }
+    if (!REPLIES_MODES.includes(replies)) {
+      return jsonCORS({ error: `replies must be one of: ${REPLIES_MODES.join(", ")}`, code: "invalid_request" }, { status: 400 })
+    }
+    if (!FORMATS.includes(format)) {
+      return jsonCORS({ error: `format must be one of: ${FORMATS.join(", ")}`, code: "invalid_request" }, { status: 400 })
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_COMMENTS_PAGE_SIZE)) {
+      return jsonCORS({ error: `limit must be an integer between 1 and ${MAX_COMMENTS_PAGE_SIZE}`, code: "invalid_request" }, { status: 400 })
+    }
+
+    const parsed = parseYoutubeInput(input)
+    const videoId = parsed?.videoId
+    if (!videoId) {
+      return jsonCORS({ error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }, { status: 404 })
+    }
+
+    if (format === "json") {
+      const page = await listCommentThreads(videoId, { cursor, limit, order, search, replies })
+      return jsonCORS({ ...page, parsed })
+    }
+
+    // Exports always walk the full tree, so the first page is fetched up front to surface
+    // upstream errors (e.g. comments disabled) as a JSON error instead of a truncated file
+    const threads = iterateCommentThreads(videoId, { cursor, order, search, replies })
+    const first = await threads.next()
+    async function* replay(): AsyncGenerator<YoutubeCommentThread> {
+      if (!first.done) yield first.value
+      yield* threads
+    }
+
+    const filename = `comments-${videoId}.${format}`
+    return new Response(streamExport(replay(), format), withCORS({
+      status: 200,
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    }))
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
+  }
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
@@ -1,9 +1,20 @@
 import { NextRequest } from "next/server";
-import ytdl, { chooseFormat, getInfo, type videoInfo, type videoFormat } from "@distube/ytdl-core";
-import { extractVideoId } from "@/api/youtube";
-import ffmpeg from "fluent-ffmpeg";
+import ytdl, { type videoInfo } from "@distube/ytdl-core";
+import { parseYoutubeInput } from "@/api/parse";
+import { getDownloadInfo, LiveContentError } from "@/api/ytdl";
+import { toErrorResponse } from "@/api/errors";
+import { resolveClip, type Clip } from "@/api/clip";
+import { describeSelection, parseFormatPreferences, selectFormat, type DownloadMode } from "@/api/formats";
+import { MERGE_MIME_TYPES, muxStreams, REENCODE_VIDEO_ARGS } from "@/api/mux";
+import { AUDIO_OUTPUTS, configureAudioOutput, parseAudioOptions, type AudioOptions } from "@/api/audio";
+import { applyTags, getMediaTags, tagCommand } from "@/api/tags";
+import { parseSplit, splitChapters, streamChapterZip } from "@/api/split";
+import type { Readable } from "stream";
+import ffmpeg, { type FfmpegCommand } from "fluent-ffmpeg";
 import ffmpegPath from "ffmpeg-static";
 
+if (ffmpegPath) ffmpeg.setFfmpegPath(ffmpegPath as string);
+
 // Ensure Node.js runtime (not Edge) for Node stream compatibility
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,119 +32,207 @@ function sanitizeFilename(name: string) {
   return name.replace(/[\\/:*?"<>|\u0000-\u001F\u007F]+/g, " ").trim();
 }
 
+function applyClip(command: FfmpegCommand, clip: Clip) {
+  command.setStartTime(clip.start);
+  if (clip.end !== undefined) command.duration(clip.end - clip.start);
+  return command;
+}
+
+const NO_FORMAT_MESSAGES: Record<DownloadMode, string> = {
+  video: "No matching muxed formats found for this video.",
+  audio: "No audio formats found for this video.",
+  merge: "No separate video and audio streams found for this video.",
+};
+
+// Bridges a Node stream to the response body; cancelling (client disconnect) destroys it and its sources.
+// The stream is paused while the client is behind, so slow clients do not pile the download up in memory.
+function toWebStream(stream: Readable, ...sources: Readable[]) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream.on("data", (chunk: Uint8Array) => {
+        controller.enqueue(chunk);
+        if ((controller.desiredSize ?? 1) <= 0) stream.pause();
+      });
+      stream.on("end", () => controller.close());
+      stream.on("error", (err: unknown) => controller.error(err));
+    },
+    pull() {
+      stream.resume();
+    },
+    cancel() {
+      for (const s of [stream, ...sources]) {
+        try { s.destroy(); } catch {}
+      }
+    },
+  });
+}
+
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const input = (searchParams.get("id") || searchParams.get("input") || searchParams.get("url") || "").toString().trim();
-    const type = (searchParams.get("type") || "video").toString(); // "video" | "audio"
+    const type = (searchParams.get("type") || "video").toString(); // "video" | "audio" | "merge"
+    const mode: DownloadMode = type === "audio" || type === "merge" ? type : "video";
 
     if (!input) {
-      return new Response(JSON.stringify({ error: "Missing input (YouTube URL or videoId)" }), withCORS({ status: 400 }));
+      return new Response(JSON.stringify({ error: "Missing input (YouTube URL or videoId)", code: "invalid_request" }), withCORS({ status: 400 }));
     }
 
-    const id = extractVideoId(input);
+    const parsed = parseYoutubeInput(input);
+    const id = parsed?.videoId;
     if (!id) {
-      return new Response(JSON.stringify({ error: "Unable to resolve a video from the provided input" }), withCORS({ status: 404 }));
+      return new Response(JSON.stringify({ error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }), withCORS({ status: 404 }));
     }
 
-    const url = `https://www.youtube.com/watch?v=${id}`;
-
-    // Fetch full info to select appropriate format and set headers
-    const info: videoInfo = await getInfo(url);
-
-    // Filter formats based on desired type
-    const wantAudioOnly = type === "audio";
-    if (wantAudioOnly) {
-      // Audio-only: transcode to MP3 using ffmpeg
-      if (ffmpegPath) ffmpeg.setFfmpegPath(ffmpegPath as string);
-
-      const title = sanitizeFilename(info.videoDetails.title || id);
-      const filename = `${title}.mp3`;
+    // quality, itag, container, videoCodec, maxFilesize, hdr, highFps; invalid values are a 400 (InvalidRequestError)
+    const prefs = parseFormatPreferences(searchParams);
+    // audioFormat, audioBitrate, vbr, sampleRate, channels; only read for audio downloads
+    let audioOptions: AudioOptions = { format: "mp3" };
+    if (mode === "audio") {
+      audioOptions = parseAudioOptions(searchParams);
+      // Prefer an AAC/Opus source for m4a/opus so it can be remuxed instead of re-encoded; unlike container,
+      // this is not the caller's preference, so it never shows up in X-Format-Fallbacks
+      prefs.preferAudioCodec = AUDIO_OUTPUTS[audioOptions.format].passthrough;
+    }
+    // split=chapters: one audio file per chapter, streamed as a ZIP
+    const split = parseSplit(searchParams, mode);
+
+    // Fetch full info to select appropriate format and set headers; live and upcoming streams are rejected here
+    const info: videoInfo = await getDownloadInfo(id);
+
+    // Optional clip: start/end, a chapter (player chapters, else description timestamps) or the URL's t= offset
+    // Split downloads always cover the whole video, whatever t= the pasted URL carries
+    const clip = split ? null : resolveClip(searchParams, info, parsed.startSeconds);
+    const chapters = split ? splitChapters(info) : [];
+    const baseTitle = sanitizeFilename(info.videoDetails.title || id);
+    const title = clip ? `${baseTitle} - ${sanitizeFilename(clip.label)}` : baseTitle;
+
+    // Pick the stream(s) for the requested type and preferences; preferences that cannot be met are relaxed
+    const selection = selectFormat(info.formats, mode, prefs);
+    if (!selection) {
+      const error = NO_FORMAT_MESSAGES[mode];
+      return new Response(JSON.stringify({ error, code: "no_formats" }), withCORS({ status: 422 }));
+    }
+    // Report what was actually picked, and which preferences had to be dropped
+    const formatHeaders: Record<string, string> = {
+      "X-Format": describeSelection(selection),
+      "Access-Control-Expose-Headers": "X-Format, X-Format-Fallbacks",
+    };
+    if (selection.fallbacks.length) formatHeaders["X-Format-Fallbacks"] = selection.fallbacks.join("; ");
+
+    if (selection.mode === "audio" && split) {
+      // Each chapter transcoded to the requested audio format and tagged as a numbered track
+      const stream = streamChapterZip(info, selection.format, audioOptions, chapters);
+
+      return new Response(toWebStream(stream), withCORS({
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(`${title}.zip`)}`,
+          "Cache-Control": "no-store",
+          ...formatHeaders,
+        },
+      }));
+    } else if (selection.mode === "audio") {
+      // Audio-only: transcode (or remux) to the requested audio format using ffmpeg
+      const output = AUDIO_OUTPUTS[audioOptions.format];
+      const filename = `${title}.${output.extension}`;
 
-      // Source audio stream (best audio-only stream)
-      const audioFormatCandidates = info.formats.filter((f: videoFormat) => f.hasAudio);
-      if (!audioFormatCandidates.length) {
-        return new Response(JSON.stringify({ error: "No audio formats found for this video." }), withCORS({ status: 422 }));
-      }
-      const source = ytdl.downloadFromInfo(info, { filter: "audioonly", quality: "highestaudio" });
+      // Title, channel, date, source URL, chapters and (MP3/M4A) cover art
+      const tags = await getMediaTags(info, clip, output.muxer);
+      const source = ytdl.downloadFromInfo(info, { format: selection.format });
 
-      // Build ffmpeg pipeline -> mp3
-      const ff = ffmpeg({ source })
-        .format("mp3")
-        .audioCodec("libmp3lame")
-        .audioBitrate(192)
-        .on("error", () => {
-          // The error will be surfaced to the ReadableStream
-        });
+      const ff = ffmpeg({ source }).on("error", () => {
+        // The error will be surfaced to the ReadableStream
+      });
+      configureAudioOutput(ff, audioOptions, selection.format.audioCodec);
+      if (clip) applyClip(ff, clip);
+      tagCommand(ff, output.muxer, tags);
 
-      const ffStream = ff.pipe();
+      const ffStream = applyTags(ff.pipe(), output.muxer, tags);
 
-      const readable = new ReadableStream<Uint8Array>({
-        start(controller) {
-          ffStream.on("data", (chunk: Uint8Array) => controller.enqueue(chunk));
-          ffStream.on("end", () => controller.close());
-          ffStream.on("error", (err: unknown) => controller.error(err));
-        },
-        cancel() {
-          try {
-            ffStream.destroy();
-          } catch {}
-          try {
-            source.destroy();
-          } catch {}
+      return new Response(toWebStream(ffStream, source), withCORS({
+        status: 200,
+        headers: {
+          "Content-Type": output.mimeType,
+          "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+          "Cache-Control": "no-store",
+          ...formatHeaders,
         },
+      }));
+    } else if (selection.mode === "merge") {
+      // Separate video-only + audio-only streams, downloaded in parallel and muxed by ffmpeg without re-encoding
+      // Frame-accurate clips are re-encoded to H.264/AAC, which goes in MP4
+      const container = clip?.accurate ? "mp4" : selection.container;
+      const filename = `${title}.${container}`;
+
+      const tags = await getMediaTags(info, clip, container);
+      const videoSource = ytdl.downloadFromInfo(info, { format: selection.video });
+      const audioSource = ytdl.downloadFromInfo(info, { format: selection.audio });
+      const stream = muxStreams(videoSource, audioSource, {
+        container,
+        start: clip?.start,
+        duration: clip?.end !== undefined ? clip.end - clip.start : undefined,
+        reencode: clip?.accurate,
+        tags,
       });
 
-      return new Response(readable, withCORS({
+      return new Response(toWebStream(stream), withCORS({
         status: 200,
         headers: {
-          "Content-Type": "audio/mpeg",
+          "Content-Type": MERGE_MIME_TYPES[container],
           "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
           "Cache-Control": "no-store",
+          ...formatHeaders,
         },
       }));
     } else {
-      // Video+Audio: stream a muxed format without transcoding
-      const filtered = info.formats.filter((f: videoFormat) => f.hasAudio && f.hasVideo);
-      if (!filtered.length) {
-        return new Response(JSON.stringify({ error: "No matching muxed formats found for this video." }), withCORS({ status: 422 }));
-      }
-      const best = chooseFormat(filtered, { quality: "highest" });
+      // Video+Audio: remux a muxed format without transcoding, so the file can carry tags
+      const best = selection.format;
 
-      const mime = best.mimeType?.split(";")[0] || "video/mp4";
+      // Frame-accurate clips are re-encoded to H.264/AAC in MP4
+      const mime = clip?.accurate ? "video/mp4" : best.mimeType?.split(";")[0] || "video/mp4";
       let ext = "mp4";
       if (mime.includes("webm")) ext = "webm";
       else if (mime.includes("mp4")) ext = "mp4";
       else if (mime.includes("x-matroska") || mime.includes("matroska")) ext = "mkv";
 
-      const title = sanitizeFilename(info.videoDetails.title || id);
       const filename = `${title}.${ext}`;
+      const muxer = ext === "mkv" ? "matroska" : ext;
+
+      const tags = await getMediaTags(info, clip, muxer);
+      const source = ytdl.downloadFromInfo(info, { format: best });
+      // Clips are cut with a stream copy by default, so they start at a keyframe near the requested start
+      const ff = (clip ? applyClip(ffmpeg({ source }), clip) : ffmpeg({ source }))
+        .outputOptions([
+          ...(clip?.accurate ? REENCODE_VIDEO_ARGS : ["-c copy"]),
+          ...(ext === "mp4" ? ["-movflags frag_keyframe+empty_moov+default_base_moof"] : []),
+        ])
+        .format(muxer)
+        .on("error", () => {
+          // The error will be surfaced to the ReadableStream
+        });
+      const stream = applyTags(tagCommand(ff, muxer, tags).pipe(), muxer, tags);
 
-      const stream = ytdl.downloadFromInfo(info, { format: best });
-
-      const readable = new ReadableStream<Uint8Array>({
-        start(controller) {
-          stream.on("data", (chunk: Uint8Array) => controller.enqueue(chunk));
-          stream.on("end", () => controller.close());
-          stream.on("error", (err: unknown) => controller.error(err));
-        },
-        cancel() {
-          try { stream.destroy(); } catch {}
-        },
-      });
-
-      return new Response(readable, withCORS({
+      return new Response(toWebStream(stream, source), withCORS({
         status: 200,
         headers: {
           "Content-Type": mime,
           "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
           "Cache-Control": "no-store",
+          ...formatHeaders,
         },
       }));
     }
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Internal Server Error";
-    return new Response(JSON.stringify({ error: message }), withCORS({ status: 500 }));
+    const { status, body } = toErrorResponse(err);
+    if (err instanceof LiveContentError) {
+      return new Response(JSON.stringify({
+        ...body,
+        live: { state: err.state, scheduledStartTime: err.scheduledStartTime },
+      }), withCORS({ status }));
+    }
+    return new Response(JSON.stringify(body), withCORS({ status }));
   }
 }
 
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server"
+import { parseYoutubeInput } from "@/api/parse"
+import { getDownloadInfo, LiveContentError } from "@/api/ytdl"
+import { listFormats, parseFormatPreferences } from "@/api/formats"
+import { toErrorResponse } from "@/api/errors"
+
+// ytdl-core needs the Node.js runtime
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url)
+    const input = (searchParams.get("id") || searchParams.get("input") || searchParams.get("url") || "").trim()
+    if (!input) {
+      return jsonCORS({ error: "Missing input (YouTube URL or videoId)", code: "invalid_request" }, { status: 400 })
+    }
+
+    const parsed = parseYoutubeInput(input)
+    if (!parsed?.videoId) {
+      return jsonCORS({ error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }, { status: 404 })
+    }
+
+    // Same preferences as /api/download, so `recommended` previews what a download would pick
+    const prefs = parseFormatPreferences(searchParams)
+    // Same lookup as /api/download, so live and upcoming streams are rejected the same way
+    const info = await getDownloadInfo(parsed.videoId)
+    const listing = listFormats(info.formats, prefs)
+    return jsonCORS(
+      {
+        id: parsed.videoId,
+        title: info.videoDetails.title,
+        durationSeconds: Number(info.videoDetails.lengthSeconds) || undefined,
+        count: info.formats.length,
+        ...listing,
+        parsed,
+      },
+      // Higher resolutions appear while YouTube is still processing a new upload, so do not cache the listing
+      { headers: { "Cache-Control": "no-store" } }
+    )
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    if (err instanceof LiveContentError) {
+      return jsonCORS({ ...body, live: { state: err.state, scheduledStartTime: err.scheduledStartTime } }, { status })
+    }
+    return jsonCORS(body, { status })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getPlaylistPage } from "@/api/playlist"
+import { parseYoutubeInput } from "@/api/parse"
+import { toErrorResponse } from "@/api/errors"
+import { withRequestContext } from "@/api/context"
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+export const GET = withRequestContext(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const input = (
+      searchParams.get("input") ||
+      searchParams.get("url") ||
+      searchParams.get("id") ||
+      searchParams.get("list") ||
+      ""
+    )
+      .toString()
+      .trim()
+    const cursor = searchParams.get("cursor") || undefined
+    const limitParam = searchParams.get("limit")
+    const limit = limitParam ? Number(limitParam) : undefined
+
+    if (!input) {
+      return jsonCORS({ error: "Missing input (YouTube playlist URL or playlistId)", code: "invalid_request" }, { status: 400 })
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return jsonCORS({ error: "limit must be a positive integer", code: "invalid_request" }, { status: 400 })
+    }
+
+    const parsed = parseYoutubeInput(input)
+    const page = parsed?.playlistId ? await getPlaylistPage(parsed.playlistId, { cursor, limit }) : null
+    if (!page) {
+      return jsonCORS({ error: "Unable to resolve a playlist from the provided input", code: "unresolvable_input" }, { status: 404 })
+    }
+
+    return jsonCORS({ ...page, parsed })
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
+  }
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { isAdminRequest } from "@/api/admin"
+import { getQuotaReport } from "@/api/quota"
+import { toErrorResponse } from "@/api/errors"
+
+export const dynamic = "force-dynamic"
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    // Per-key usage only with the admin token
+    const report = getQuotaReport({ includeKeys: isAdminRequest(req) })
+    return jsonCORS(report, { headers: { "Cache-Control": "no-store" } })
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
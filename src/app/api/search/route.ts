@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  MAX_SEARCH_PAGE_SIZE,
+  SEARCH_CAPTIONS,
+  SEARCH_DEFINITIONS,
+  SEARCH_DURATIONS,
+  SEARCH_ORDERS,
+  SEARCH_SAFE_SEARCH,
+  SEARCH_TYPES,
+  searchYoutube,
+  type SearchType,
+  type YoutubeSearchOptions,
+} from "@/api/search"
+import { parseRegionCode } from "@/api/youtube"
+import { InvalidRequestError, toErrorResponse } from "@/api/errors"
+import { withRequestContext } from "@/api/context"
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+function pickEnum<T extends string>(searchParams: URLSearchParams, name: string, allowed: readonly T[]): T | undefined {
+  const value = searchParams.get(name)
+  if (!value) return undefined
+  if (!allowed.includes(value as T)) throw new InvalidRequestError(`${name} must be one of: ${allowed.join(", ")}`)
+  return value as T
+}
+
+function pickDate(searchParams: URLSearchParams, name: string): string | undefined {
+  const value = searchParams.get(name)
+  if (!value) return undefined
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) throw new InvalidRequestError(`${name} must be an ISO 8601 date`)
+  // search.list requires RFC 3339 timestamps
+  return date.toISOString()
+}
+
+function parseSearchOptions(searchParams: URLSearchParams): YoutubeSearchOptions {
+  const type = (searchParams.get("type") || "video").split(",").map((t) => t.trim()).filter(Boolean) as SearchType[]
+  if (!type.length || !type.every((t) => SEARCH_TYPES.includes(t))) {
+    throw new InvalidRequestError(`type must be a comma-separated list of: ${SEARCH_TYPES.join(", ")}`)
+  }
+
+  const options: YoutubeSearchOptions = {
+    query: (searchParams.get("q") || searchParams.get("query") || "").trim() || undefined,
+    type,
+    channelId: searchParams.get("channelId") || undefined,
+    publishedAfter: pickDate(searchParams, "publishedAfter"),
+    publishedBefore: pickDate(searchParams, "publishedBefore"),
+    duration: pickEnum(searchParams, "duration", SEARCH_DURATIONS),
+    definition: pickEnum(searchParams, "definition", SEARCH_DEFINITIONS),
+    caption: pickEnum(searchParams, "caption", SEARCH_CAPTIONS),
+    order: pickEnum(searchParams, "order", SEARCH_ORDERS),
+    regionCode: parseRegionCode(searchParams.get("regionCode")),
+    relevanceLanguage: searchParams.get("relevanceLanguage") || undefined,
+    safeSearch: pickEnum(searchParams, "safeSearch", SEARCH_SAFE_SEARCH),
+    cursor: searchParams.get("cursor") || undefined,
+  }
+
+  const limitParam = searchParams.get("limit")
+  if (limitParam) {
+    const limit = Number(limitParam)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_PAGE_SIZE) {
+      throw new InvalidRequestError(`limit must be an integer between 1 and ${MAX_SEARCH_PAGE_SIZE}`)
+    }
+    options.limit = limit
+  }
+
+  if (!options.query && !options.channelId) {
+    throw new InvalidRequestError("Missing q (search query) or channelId")
+  }
+  if ((options.duration || options.definition || options.caption) && (type.length !== 1 || type[0] !== "video")) {
+    throw new InvalidRequestError("duration, definition and caption filters require type=video")
+  }
+  return options
+}
+
+export const GET = withRequestContext(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const page = await searchYoutube(parseSearchOptions(searchParams))
+    return jsonCORS(page)
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
+  }
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import {
+  getTrendingVideos,
+  MAX_TRENDING_PAGE_SIZE,
+  parseLanguage,
+  parseRegionCode,
+  parseVideoParts,
+  type TrendingOptions,
+} from "@/api/youtube"
+import { DEFAULT_REGION_CODE, resolveCategoryId } from "@/api/categories"
+import { parseFields, pickFields } from "@/api/fields"
+import { InvalidRequestError, toErrorResponse } from "@/api/errors"
+import { withRequestContext } from "@/api/context"
+
+function withCORS(init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("Access-Control-Allow-Origin", "*")
+  headers.set("Access-Control-Allow-Methods", "GET,OPTIONS")
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+  headers.set("Access-Control-Max-Age", "86400")
+  return { ...init, headers }
+}
+
+function jsonCORS(body: unknown, init?: ResponseInit) {
+  return NextResponse.json(body, withCORS(init))
+}
+
+export const GET = withRequestContext(async (req: NextRequest) => {
+  try {
+    const { searchParams } = new URL(req.url)
+
+    const options: TrendingOptions = {
+      regionCode: parseRegionCode(searchParams.get("region") || searchParams.get("regionCode")) ?? DEFAULT_REGION_CODE,
+      hl: parseLanguage(searchParams.get("hl")),
+      parts: parseVideoParts(searchParams.get("parts")),
+      cursor: searchParams.get("cursor") || undefined,
+    }
+    const limitParam = searchParams.get("limit")
+    if (limitParam) {
+      const limit = Number(limitParam)
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRENDING_PAGE_SIZE) {
+        throw new InvalidRequestError(`limit must be an integer between 1 and ${MAX_TRENDING_PAGE_SIZE}`)
+      }
+      options.limit = limit
+    }
+    const fields = parseFields(searchParams.get("fields"))
+
+    // category accepts an ID ("10") or a category name ("Music") in the region's list
+    const category = searchParams.get("category")?.trim()
+    if (category) {
+      const categoryId = await resolveCategoryId(category, options.regionCode, options.hl)
+      if (!categoryId) {
+        return jsonCORS({ error: `Unknown category for region ${options.regionCode}: ${category}`, code: "invalid_request" }, { status: 400 })
+      }
+      options.categoryId = categoryId
+    }
+
+    const page = await getTrendingVideos(options)
+    return jsonCORS({ ...page, items: page.items.map((video) => pickFields(video, fields)) })
+  } catch (err: unknown) {
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
+  }
+})
+
+export async function OPTIONS() {
+  return new NextResponse(null, withCORS({ status: 204 }))
+}
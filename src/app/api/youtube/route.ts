@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from "next/server"
-import { getVideoByInput } from "@/api/youtube"
+import {
+  getVideoById,
+  getVideosByInputs,
+  parseLanguage,
+  parseRegionCode,
+  parseVideoParts,
+  type VideoQueryOptions,
+} from "@/api/youtube"
+import { parseYoutubeInput } from "@/api/parse"
+import { parseFields, pickFields } from "@/api/fields"
+import { toErrorResponse } from "@/api/errors"
+import { withRequestContext } from "@/api/context"
+
+// Upper bound on a single batch request; IDs are still fetched 50 per upstream call
+const MAX_BATCH_INPUTS = 500
 
 function withCORS(init?: ResponseInit) {
   const headers = new Headers(init?.headers)
@@ -14,28 +28,68 @@ function jsonCORS(body: unknown, init?: ResponseInit) {
   return NextResponse.json(body, withCORS(init))
 }
 
-export async function POST(req: NextRequest) {
+type SelectionInput = {
+  parts?: string | string[] | null
+  fields?: string | string[] | null
+  regionCode?: string | null
+  hl?: string | null
+}
+
+// Shared by GET (query string) and POST (JSON body); throws InvalidRequestError for invalid values
+function readSelection(input: SelectionInput) {
+  const options: VideoQueryOptions = {
+    parts: parseVideoParts(input.parts),
+    regionCode: parseRegionCode(input.regionCode),
+    hl: parseLanguage(input.hl),
+  }
+  return { options, fields: parseFields(input.fields) }
+}
+
+export const POST = withRequestContext(async (req: NextRequest) => {
   try {
     const body = await req.json().catch(() => ({}))
+
+    const { options, fields } = readSelection({ parts: body?.parts, fields: body?.fields, regionCode: body?.regionCode, hl: body?.hl })
+
+    if (body?.inputs !== undefined) {
+      if (!Array.isArray(body.inputs) || !body.inputs.every((i: unknown) => typeof i === "string")) {
+        return jsonCORS({ error: "inputs must be an array of strings", code: "invalid_request" }, { status: 400 })
+      }
+      // Blank entries stay in place (and resolve to unresolvable_input) so results[i] matches inputs[i]
+      const inputs = (body.inputs as string[]).map((i) => i.trim())
+      if (!inputs.length) {
+        return jsonCORS({ error: "Missing inputs (YouTube URLs or videoIds)", code: "invalid_request" }, { status: 400 })
+      }
+      if (inputs.length > MAX_BATCH_INPUTS) {
+        return jsonCORS({ error: `Too many inputs (max ${MAX_BATCH_INPUTS})`, code: "invalid_request" }, { status: 400 })
+      }
+
+      const results = await getVideosByInputs(inputs, options)
+      return jsonCORS({
+        results: results.map((result) => (result.video ? { ...result, video: pickFields(result.video, fields) } : result)),
+      })
+    }
+
     const input = (body?.input ?? "").toString().trim()
 
     if (!input) {
-      return jsonCORS({ error: "Missing input (YouTube URL or videoId)" }, { status: 400 })
+      return jsonCORS({ error: "Missing input (YouTube URL or videoId)", code: "invalid_request" }, { status: 400 })
     }
 
-    const video = await getVideoByInput(input)
+    const parsed = parseYoutubeInput(input)
+    const video = parsed?.videoId ? await getVideoById(parsed.videoId, options) : null
     if (!video) {
-      return jsonCORS({ error: "Unable to resolve a video from the provided input" }, { status: 404 })
+      return jsonCORS({ error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }, { status: 404 })
     }
 
-    return jsonCORS({ video })
+    return jsonCORS({ video: pickFields(video, fields), parsed, source: video.source })
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Internal Server Error"
-    return jsonCORS({ error: message }, { status: 500 })
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
   }
-}
+})
 
-export async function GET(req: NextRequest) {
+export const GET = withRequestContext(async (req: NextRequest) => {
   try {
     const { searchParams } = new URL(req.url)
     // Accept multiple aliases for developer convenience
@@ -50,20 +104,28 @@ export async function GET(req: NextRequest) {
       .trim()
 
     if (!input) {
-      return jsonCORS({ error: "Missing input (YouTube URL or videoId)" }, { status: 400 })
+      return jsonCORS({ error: "Missing input (YouTube URL or videoId)", code: "invalid_request" }, { status: 400 })
     }
 
-    const video = await getVideoByInput(input)
+    const { options, fields } = readSelection({
+      parts: searchParams.get("parts"),
+      fields: searchParams.get("fields"),
+      regionCode: searchParams.get("regionCode"),
+      hl: searchParams.get("hl"),
+    })
+
+    const parsed = parseYoutubeInput(input)
+    const video = parsed?.videoId ? await getVideoById(parsed.videoId, options) : null
     if (!video) {
-      return jsonCORS({ error: "Unable to resolve a video from the provided input" }, { status: 404 })
+      return jsonCORS({ error: "Unable to resolve a video from the provided input", code: "unresolvable_input" }, { status: 404 })
     }
 
-    return jsonCORS({ video })
+    return jsonCORS({ video: pickFields(video, fields), parsed, source: video.source })
   } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Internal Server Error"
-    return jsonCORS({ error: message }, { status: 500 })
+    const { status, body } = toErrorResponse(err)
+    return jsonCORS(body, { status })
   }
-}
+})
 
 export async function OPTIONS() {
   return new NextResponse(null, withCORS({ status: 204 }))
@@ -10,6 +10,8 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { formatDuration } from "@/api/metrics"
+import type { DescriptionEntity } from "@/api/description"
 
 type ApiVideo = {
   id: string
@@ -20,13 +22,35 @@ type ApiVideo = {
   channelId: string
   channelTitle: string
   thumbnails: Record<string, { url: string; width?: number; height?: number }>
+  category?: { id: string; title: string }
   duration: string
+  durationSeconds?: number
+  durationText?: string
+  chapters?: Array<{ start: number; end: number; title: string }>
+  chaptersSource?: "player" | "description"
+  descriptionEntities?: { entities: DescriptionEntity[] }
   tags?: string[]
   statistics?: {
     viewCount?: number
     likeCount?: number
     commentCount?: number
   }
+  metrics?: {
+    engagementRate?: number
+    viewsPerDay?: number
+    isShort: boolean
+  }
+  live?: {
+    state: "upcoming" | "live" | "completed"
+    scheduledStartTime?: string
+    actualStartTime?: string
+    actualEndTime?: string
+    concurrentViewers?: number
+  }
+  source?: {
+    provider: "youtube-data-api" | "ytdl-core"
+    missing: string[]
+  }
   channel?: {
     id: string
     title: string
@@ -191,9 +215,44 @@ export default function Home() {
                   {video.statistics?.commentCount !== undefined && (
                     <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700">{video.statistics.commentCount.toLocaleString()} comments</Badge>
                   )}
-                  <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700">{video.duration}</Badge>
+                  <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700" title={video.duration}>{video.durationText ?? video.duration}</Badge>
+                  {video.source?.provider === "ytdl-core" && (
+                    <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700" title={`Not available without the Data API: ${video.source.missing.join(", ")}`}>
+                      Limited metadata
+                    </Badge>
+                  )}
+                  {video.category && (
+                    <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700">{video.category.title}</Badge>
+                  )}
+                  {video.metrics?.isShort && (
+                    <Badge variant="secondary" className="bg-neutral-100 text-neutral-800 dark:bg-neutral-900 dark:text-neutral-200">Short</Badge>
+                  )}
+                  {video.live?.state === "live" && (
+                    <Badge variant="destructive">
+                      Live{video.live.concurrentViewers !== undefined ? ` · ${video.live.concurrentViewers.toLocaleString()} watching` : ""}
+                    </Badge>
+                  )}
+                  {video.live?.state === "upcoming" && (
+                    <Badge variant="secondary" className="bg-neutral-100 text-neutral-800 dark:bg-neutral-900 dark:text-neutral-200">
+                      Upcoming{video.live.scheduledStartTime ? ` · ${new Date(video.live.scheduledStartTime).toLocaleString()}` : ""}
+                    </Badge>
+                  )}
+                  {video.live?.state === "completed" && (
+                    <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700">Past live stream</Badge>
+                  )}
                 </div>
 
+                {(video.metrics?.viewsPerDay !== undefined || video.metrics?.engagementRate !== undefined) && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-neutral-600 dark:text-neutral-400">
+                    {video.metrics?.viewsPerDay !== undefined && (
+                      <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700">{Math.round(video.metrics.viewsPerDay).toLocaleString()} views/day</Badge>
+                    )}
+                    {video.metrics?.engagementRate !== undefined && (
+                      <Badge variant="outline" className="border-neutral-300 dark:border-neutral-700" title="(likes + comments) / views">{(video.metrics.engagementRate * 100).toFixed(2)}% engagement</Badge>
+                    )}
+                  </div>
+                )}
+
                 {video.tags && video.tags.length > 0 && (
                   <div className="flex flex-wrap gap-2">
                     {video.tags.slice(0, 12).map((t) => (
@@ -207,10 +266,31 @@ export default function Home() {
                 <div className="space-y-2">
                   <div className="text-sm text-neutral-500">Description</div>
                   <p className="whitespace-pre-wrap text-sm leading-relaxed text-neutral-800 dark:text-neutral-200">
-                    {video.description || "No description"}
+                    {video.description ? <DescriptionText video={video} /> : "No description"}
                   </p>
                 </div>
 
+                {video.chapters && video.chapters.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="text-sm text-neutral-500">Chapters</div>
+                    <ol className="grid gap-1 text-sm">
+                      {video.chapters.map((chapter, i) => (
+                        <li key={`${chapter.start}-${i}`}>
+                          <a
+                            href={`https://www.youtube.com/watch?v=${encodeURIComponent(video.id)}&t=${chapter.start}s`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="flex items-baseline gap-3 rounded px-2 py-1 text-neutral-800 hover:bg-neutral-100 dark:text-neutral-200 dark:hover:bg-neutral-900"
+                          >
+                            <span className="w-16 shrink-0 tabular-nums text-neutral-500">{formatDuration(chapter.start)}</span>
+                            <span>{chapter.title}</span>
+                          </a>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+
                 {video.channel && (
                   <div className="space-y-2">
                     <div className="text-sm text-neutral-500">Channel</div>
@@ -227,24 +307,36 @@ export default function Home() {
                 )}
               </CardContent>
               <CardFooter className="flex justify-between">
-                <div className="flex flex-wrap gap-2">
-                  <Button asChild variant="default" className="bg-neutral-900 text-white hover:bg-neutral-800 dark:bg-neutral-200 dark:text-neutral-900 dark:hover:bg-neutral-300">
-                    <a
-                      href={`/api/download?type=video&id=${encodeURIComponent(video.id)}`}
-                      title="Download video with audio"
-                    >
-                      Download Video+Audio
-                    </a>
-                  </Button>
-                  <Button asChild variant="secondary" className="bg-neutral-100 text-neutral-800 hover:bg-neutral-200 dark:bg-neutral-900 dark:text-neutral-200 dark:hover:bg-neutral-800">
-                    <a
-                      href={`/api/download?type=audio&id=${encodeURIComponent(video.id)}`}
-                      title="Download audio only"
-                    >
-                      Download Audio Only
-                    </a>
-                  </Button>
-                </div>
+                {video.live?.state === "live" || video.live?.state === "upcoming" ? (
+                  <div className="text-sm text-neutral-500">Downloads are available once the broadcast has ended.</div>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <Button asChild variant="default" className="bg-neutral-900 text-white hover:bg-neutral-800 dark:bg-neutral-200 dark:text-neutral-900 dark:hover:bg-neutral-300">
+                      <a
+                        href={`/api/download?type=video&id=${encodeURIComponent(video.id)}`}
+                        title="Download video with audio"
+                      >
+                        Download Video+Audio
+                      </a>
+                    </Button>
+                    <Button asChild variant="secondary" className="bg-neutral-100 text-neutral-800 hover:bg-neutral-200 dark:bg-neutral-900 dark:text-neutral-200 dark:hover:bg-neutral-800">
+                      <a
+                        href={`/api/download?type=merge&id=${encodeURIComponent(video.id)}`}
+                        title="Download the highest resolution, merged from separate video and audio streams"
+                      >
+                        Download Best Quality
+                      </a>
+                    </Button>
+                    <Button asChild variant="secondary" className="bg-neutral-100 text-neutral-800 hover:bg-neutral-200 dark:bg-neutral-900 dark:text-neutral-200 dark:hover:bg-neutral-800">
+                      <a
+                        href={`/api/download?type=audio&id=${encodeURIComponent(video.id)}`}
+                        title="Download audio only"
+                      >
+                        Download Audio Only
+                      </a>
+                    </Button>
+                  </div>
+                )}
                 <Button asChild variant="outline" className="border-neutral-300 text-neutral-800 hover:bg-neutral-100 dark:border-neutral-700 dark:text-neutral-200 dark:hover:bg-neutral-900">
                   <a href={video.url} target="_blank" rel="noreferrer">Open on YouTube</a>
                 </Button>
@@ -256,3 +348,34 @@ export default function Home() {
     </div>
   )
 }
+
+const descriptionLinkClass = "text-blue-600 hover:underline dark:text-blue-400"
+
+// Splices the analyzer's entities back into the description: links open their unwrapped target,
+// timestamps seek the video, hashtags and mentions go to their YouTube pages
+function DescriptionText({ video }: { video: ApiVideo }) {
+  const text = video.description
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+  for (const entity of video.descriptionEntities?.entities ?? []) {
+    const [start, end] = entity.indices
+    if (start < cursor) continue
+    parts.push(text.slice(cursor, start))
+    const href =
+      entity.type === "link"
+        ? entity.target
+        : entity.type === "timestamp"
+          ? `https://www.youtube.com/watch?v=${encodeURIComponent(video.id)}&t=${entity.seconds}s`
+          : entity.type === "hashtag"
+            ? `https://www.youtube.com/hashtag/${encodeURIComponent(entity.tag.toLowerCase())}`
+            : `https://www.youtube.com/${entity.handle}`
+    parts.push(
+      <a key={start} href={href} target="_blank" rel="noreferrer nofollow" className={descriptionLinkClass}>
+        {text.slice(start, end)}
+      </a>
+    )
+    cursor = end
+  }
+  parts.push(text.slice(cursor))
+  return <>{parts}</>
+}
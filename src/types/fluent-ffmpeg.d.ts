@@ -1,10 +1,19 @@
 declare module "fluent-ffmpeg" {
   import type { Readable } from "stream";
 
-  interface FfmpegCommand {
+  export interface FfmpegCommand {
     format(fmt: string): FfmpegCommand;
     audioCodec(codec: string): FfmpegCommand;
     audioBitrate(bitrate: number | string): FfmpegCommand;
+    audioChannels(channels: number): FfmpegCommand;
+    audioFrequency(frequency: number): FfmpegCommand;
+    audioQuality(quality: number): FfmpegCommand;
+    noVideo(): FfmpegCommand;
+    videoCodec(codec: string): FfmpegCommand;
+    setStartTime(time: number | string): FfmpegCommand;
+    duration(time: number | string): FfmpegCommand;
+    outputOptions(options: string[]): FfmpegCommand;
+    outputOptions(...options: string[]): FfmpegCommand;
     on(event: "error", listener: (err: Error) => void): FfmpegCommand;
     on(event: string, listener: (...args: unknown[]) => void): FfmpegCommand;
     pipe(): Readable;